@@ -0,0 +1,133 @@
+import { DIFFICULTIES } from '@/game/config';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/game/globalScores';
+import { MAX_NAME_LENGTH } from '@/game/leaderboard';
+import { DEFAULT_TIME_LIMIT, GAME_MODES, TIME_ATTACK_DURATIONS } from '@/game/modes';
+import { parseReplay, type Replay } from '@/game/replay';
+import { MAX_VERIFIED_INPUTS, RunVerificationError, verifyReplay } from '@/game/verify';
+import type { Difficulty, GameMode } from '@/game/types';
+import { createRateLimiter, getClientKey } from '@/server/rateLimit';
+import { addScore, listScores } from '@/server/scoreStore';
+
+// ============================================================================
+// GLOBAL SCORES ROUTE
+// ============================================================================
+
+// Scores live in a local file, so this route always runs on Node
+export const runtime = 'nodejs';
+
+// Generous for the longest verifiable run; larger bodies are refused unread
+const MAX_BODY_BYTES = 512 * 1024;
+// Each submission re-simulates a whole run, so clients get a handful a minute
+const SUBMISSIONS_PER_WINDOW = 5;
+const SUBMISSION_WINDOW = 60 * 1000; // ms
+
+const submissionLimiter = createRateLimiter(SUBMISSIONS_PER_WINDOW, SUBMISSION_WINDOW);
+
+function errorResponse(status: number, error: string, headers?: HeadersInit) {
+  return Response.json({ error }, { status, headers });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Stops reading as soon as the body passes the limit; null when it does
+async function readBody(request: Request, maxBytes: number): Promise<string | null> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// GET /api/scores?mode=timeAttack&difficulty=medium&timeLimit=60&page=1&pageSize=10
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const mode = params.get('mode') ?? 'classic';
+  const difficulty = params.get('difficulty') ?? 'medium';
+  const timeLimit = Number(params.get('timeLimit') ?? DEFAULT_TIME_LIMIT);
+  const page = Number(params.get('page') ?? 1);
+  const pageSize = Number(params.get('pageSize') ?? DEFAULT_PAGE_SIZE);
+
+  if (!GAME_MODES.includes(mode as GameMode)) return errorResponse(400, `Unknown mode: ${mode}`);
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) return errorResponse(400, `Unknown difficulty: ${difficulty}`);
+  if (mode === 'timeAttack' && !TIME_ATTACK_DURATIONS.includes(timeLimit)) {
+    return errorResponse(400, `timeLimit must be one of ${TIME_ATTACK_DURATIONS.join(', ')}`);
+  }
+  if (!Number.isInteger(page) || page < 1) return errorResponse(400, 'page must be a positive integer');
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return errorResponse(400, `pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return Response.json(await listScores(mode as GameMode, difficulty as Difficulty, timeLimit, page, pageSize));
+}
+
+// POST /api/scores with { name, replay }; the replay is re-simulated before the score is accepted
+export async function POST(request: Request) {
+  const client = getClientKey(request);
+  if (!submissionLimiter.take(client)) {
+    const retryAfter = Math.ceil(submissionLimiter.retryAfter(client) / 1000);
+    return errorResponse(429, 'Too many submissions, try again shortly', { 'Retry-After': String(retryAfter) });
+  }
+
+  const text = await readBody(request, MAX_BODY_BYTES);
+  if (text === null) return errorResponse(413, 'Submission is too large');
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    return errorResponse(400, 'Request body is not valid JSON');
+  }
+  if (!isRecord(body)) return errorResponse(400, 'Request body must be an object');
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return errorResponse(400, 'A player name is required');
+  if (name.length > MAX_NAME_LENGTH) return errorResponse(400, `Names are limited to ${MAX_NAME_LENGTH} characters`);
+
+  if (!isRecord(body.replay)) return errorResponse(400, 'A replay is required');
+  if (Array.isArray(body.replay.inputs) && body.replay.inputs.length > MAX_VERIFIED_INPUTS) {
+    return errorResponse(413, 'Replay has too many inputs');
+  }
+
+  let replay: Replay;
+  try {
+    replay = parseReplay(JSON.stringify(body.replay));
+  } catch (err) {
+    return errorResponse(400, err instanceof Error ? err.message : 'Invalid replay');
+  }
+
+  try {
+    const run = verifyReplay(replay);
+    const result = await addScore({
+      name,
+      score: run.score,
+      mode: replay.mode,
+      difficulty: replay.difficulty,
+      timeLimit: replay.timeLimit,
+      duration: run.duration,
+      popped: run.popped,
+      maxBonusStreak: run.maxBonusStreak,
+      seed: replay.seed,
+    });
+    if (!result) return errorResponse(409, 'This run has already been submitted');
+
+    return Response.json(result, { status: 201 });
+  } catch (err) {
+    if (err instanceof RunVerificationError) return errorResponse(422, err.message);
+    throw err;
+  }
+}
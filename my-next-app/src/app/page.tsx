@@ -1,93 +1,207 @@
 'use client';
 
+import Link from 'next/link';
 import React, { useEffect, useRef, useState } from 'react';
+import {
+  REDUCED_MOTION_QUERY,
+  REDUCED_PARTICLE_SCALE,
+  getAssistedScoreKey,
+  isAssistedRun,
+  isReducedMotion,
+  loadAccessibilitySettings,
+  saveAccessibilitySettings,
+  type AccessibilitySettings,
+} from '@/game/accessibility';
+import {
+  createAchievementTracker,
+  createEmptyAchievementProgress,
+  loadAchievementProgress,
+  saveAchievementProgress,
+  type AchievementDefinition,
+  type AchievementTracker,
+} from '@/game/achievements';
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  createAudioEngine,
+  loadAudioSettings,
+  saveAudioSettings,
+  type AudioEngine,
+  type AudioSettings,
+} from '@/game/audio';
+import { BALLOON_TYPE_IDS, getBalloonInstruction, getBalloonType } from '@/game/balloonTypes';
+import { BONUS_MULTIPLIER, DIFFICULTIES } from '@/game/config';
+import {
+  AIM_ASSIST_RADIUS,
+  HIT_TOLERANCE_OPTIONS,
+  POP_KEYS,
+  centerCrosshair,
+  createGamepadReader,
+  findAimTarget,
+  getKeyboardDirection,
+  isDirectionKey,
+  loadControlSettings,
+  moveCrosshair,
+  saveControlSettings,
+  type ControlSettings,
+  type Crosshair,
+} from '@/game/controls';
+import {
+  CUSTOM_BASE_DIFFICULTY,
+  createCustomConfig,
+  decodeDifficultyConfig,
+  getCustomScoreKey,
+  loadCustomPresets,
+  saveCustomPresets,
+  upsertCustomPreset,
+  type CustomPreset,
+} from '@/game/customDifficulty';
+import {
+  DAILY_DIFFICULTY,
+  DAILY_WORLD,
+  createEmptyDailyHistory,
+  getDailyKey,
+  getDailySeed,
+  loadDailyHistory,
+  recordDailyResult,
+  saveDailyHistory,
+  type DailyHistory,
+} from '@/game/daily';
+import {
+  createGameEngine,
+  type GameEngine,
+  type GameEngineOptions,
+  type GameEvent,
+  type GameOverCause,
+} from '@/game/engine';
+import { submitGlobalScore } from '@/game/globalScores';
+import { createRunRecord, getLifetimeTotals, loadRunHistory, recordRun, saveRunHistory } from '@/game/history';
+import {
+  MAX_NAME_LENGTH,
+  addLeaderboardEntry,
+  createEmptyLeaderboard,
+  getBestScore,
+  loadLeaderboard,
+  qualifiesForLeaderboard,
+  resetLeaderboard,
+  saveLeaderboard,
+  serializeLeaderboard,
+  type Leaderboard,
+  type LeaderboardEntry,
+} from '@/game/leaderboard';
+import { FIXED_TIMESTEP, createFixedStepLoop, type FixedStepLoop } from '@/game/loop';
+import {
+  MULTIPLAYER_FIELD,
+  createMultiplayerClient,
+  rankPlayers,
+  type ConnectionStatus,
+  type MultiplayerClient,
+  type MultiplayerEvent,
+  type OnlineRoom,
+  type RoomPlayer,
+  type RoomSettings,
+} from '@/game/multiplayer';
+import {
+  DEFAULT_TIME_LIMIT,
+  GAME_MODES,
+  MODE_CONFIGS,
+  TIME_ATTACK_DURATIONS,
+  getScoreKey,
+} from '@/game/modes';
+import {
+  createWorkerEngine,
+  isOffscreenRenderingSupported,
+  loadOffscreenRendering,
+  saveOffscreenRendering,
+  type WorkerEngine,
+} from '@/game/offscreen';
+import {
+  isTapRingVisible,
+  renderFitted,
+  renderLetterboxed,
+  renderVersus,
+  type CanvasToast,
+  type RenderOptions,
+  type TapRing,
+} from '@/game/render';
+import {
+  createReplay,
+  createReplayPlayer,
+  parseReplay,
+  serializeReplay,
+  type Replay,
+  type ReplayPlayer,
+} from '@/game/replay';
+import { VERSUS_BOMB_PENALTY, VERSUS_PLAYERS, createVersusMatch, type VersusMatch } from '@/game/versus';
+import {
+  getNewUnlocks,
+  loadCosmeticSettings,
+  saveCosmeticSettings,
+  type BalloonSkin,
+  type CosmeticSettings,
+  type Theme,
+} from '@/game/themes';
+import type { BalloonType, Difficulty, DifficultyConfig, GameMode } from '@/game/types';
+import { getWorldSize, toFieldPoint, type WorldSize } from '@/game/world';
+import AccessibilityScreen from '@/components/AccessibilityScreen';
+import AchievementsScreen from '@/components/AchievementsScreen';
+import AudioScreen from '@/components/AudioScreen';
+import CustomDifficultyScreen from '@/components/CustomDifficultyScreen';
+import CustomizeScreen from '@/components/CustomizeScreen';
+import DailyChallengeCard from '@/components/DailyChallengeCard';
+import GlobalScoresCard from '@/components/GlobalScoresCard';
+import LeaderboardScreen from '@/components/LeaderboardScreen';
+import OnlineLobbyScreen from '@/components/OnlineLobbyScreen';
+import OnlineResults from '@/components/OnlineResults';
+import ReplayControls from '@/components/ReplayControls';
+import VersusScores from '@/components/VersusScores';
+import { useMenuNavigation } from '@/hooks/useMenuNavigation';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-type BalloonType = 'normal' | 'star' | 'bomb' | 'golden';
-type GameState = 'menu' | 'playing' | 'gameover';
-type Difficulty = 'easy' | 'medium' | 'hard';
-
-interface Balloon {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  type: BalloonType;
-  popped: boolean;
-  popTime?: number;
-  rotation: number;
-  rotationSpeed: number;
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  color: string;
-  size: number;
-}
+type GameState =
+  | 'menu'
+  | 'playing'
+  | 'paused'
+  | 'gameover'
+  | 'replay'
+  | 'leaderboard'
+  | 'achievements'
+  | 'accessibility'
+  | 'audio'
+  | 'customize'
+  | 'custom'
+  | 'online';
+
+const GAME_OVER_TITLES: Record<GameOverCause, string> = {
+  bomb: '💥 Game Over!',
+  time: "⏱ Time's Up!",
+  lives: '💔 Out of Lives!',
+  quit: '🧘 Run Complete',
+};
 
-interface DifficultyConfig {
-  baseSpeed: number;
-  spawnInterval: number;
-  bombChance: number;
-  starChance: number;
-  goldenChance: number;
-  speedIncreaseRate: number;
-  spawnDecreaseRate: number;
+function getVersusTitle(scores: readonly number[]): string {
+  const [first, second] = scores;
+  if (first === second) return "🤝 It's a Draw!";
+  return `🏆 ${VERSUS_PLAYERS[first > second ? 0 : 1].label} Wins!`;
 }
 
-// ============================================================================
-// GAME CONFIGURATION
-// ============================================================================
-
-const DIFFICULTY_CONFIGS: Record<Difficulty, DifficultyConfig> = {
-  easy: {
-    baseSpeed: 1.2,
-    spawnInterval: 1800,
-    bombChance: 0.05,
-    starChance: 0.15,
-    goldenChance: 0.08,
-    speedIncreaseRate: 0.0005,
-    spawnDecreaseRate: 0.98,
-  },
-  medium: {
-    baseSpeed: 1.8,
-    spawnInterval: 1400,
-    bombChance: 0.12,
-    starChance: 0.12,
-    goldenChance: 0.06,
-    speedIncreaseRate: 0.001,
-    spawnDecreaseRate: 0.97,
-  },
-  hard: {
-    baseSpeed: 2.5,
-    spawnInterval: 1000,
-    bombChance: 0.18,
-    starChance: 0.10,
-    goldenChance: 0.05,
-    speedIncreaseRate: 0.0015,
-    spawnDecreaseRate: 0.96,
-  },
-};
+// Screen readers hear the score at most this often (ms of simulated time)
+const SCORE_ANNOUNCE_INTERVAL = 5000;
 
-const BALLOON_COLORS = {
-  normal: ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#F7DC6F'],
-  star: '#FFD700',
-  bomb: '#2C3E50',
-  golden: '#FFC107',
-};
+// Standard runs carry their custom rules, if any, so restarting keeps them
+type GameRun =
+  | { type: 'standard'; config?: DifficultyConfig }
+  | { type: 'daily'; date: string; official: boolean }
+  | { type: 'versus'; config?: DifficultyConfig }
+  | { type: 'online'; seed: number; settings: RoomSettings };
 
-const BONUS_DURATION = 8000; // 8 seconds
-const BONUS_MULTIPLIER = 2;
+// A finished run waiting on the game over screen for the player's name
+interface PendingEntry {
+  key: string;
+  entry: LeaderboardEntry;
+}
 
 // ============================================================================
 // MAIN GAME COMPONENT
@@ -98,27 +212,71 @@ export default function PopTheBalloonGame() {
   const containerRef = useRef<HTMLDivElement>(null);
   const [gameState, setGameState] = useState<GameState>('menu');
   const [score, setScore] = useState(0);
-  const scoreRef = useRef<number>(0);
   const [difficulty, setDifficulty] = useState<Difficulty>('medium');
-  const [highScores, setHighScores] = useState<Record<Difficulty, number>>({
-    easy: 0,
-    medium: 0,
-    hard: 0,
-  });
+  const [useCustomDifficulty, setUseCustomDifficulty] = useState(false);
+  const [customConfig, setCustomConfig] = useState<DifficultyConfig>(createCustomConfig);
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>([]);
+  const [mode, setMode] = useState<GameMode>('classic');
+  const [timeLimit, setTimeLimit] = useState(DEFAULT_TIME_LIMIT);
+  const [endCause, setEndCause] = useState<GameOverCause>('bomb');
+  const [maxCombo, setMaxCombo] = useState(0);
+  const [versusScores, setVersusScores] = useState<number[]>([0, 0]);
+  const [onlineStatus, setOnlineStatus] = useState<ConnectionStatus>('connecting');
+  const [onlineRoom, setOnlineRoom] = useState<OnlineRoom | null>(null);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+  const [onlineStarting, setOnlineStarting] = useState(false);
+  const [onlineResults, setOnlineResults] = useState<RoomPlayer[] | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>(createEmptyLeaderboard);
+  const [pendingEntry, setPendingEntry] = useState<PendingEntry | null>(null);
+  const [playerName, setPlayerName] = useState('');
+  const [savedRank, setSavedRank] = useState<number | null>(null);
+  const [globalStatus, setGlobalStatus] = useState<string | null>(null);
+  const [achievementProgress, setAchievementProgress] = useState(createEmptyAchievementProgress);
+  const [controlSettings, setControlSettings] = useState<ControlSettings>({ aimAssist: false, hitTolerance: 0 });
+  const [accessibilitySettings, setAccessibilitySettings] = useState<AccessibilitySettings | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [cosmeticSettings, setCosmeticSettings] = useState<CosmeticSettings | null>(null);
+  const [newUnlocks, setNewUnlocks] = useState<(Theme | BalloonSkin)[]>([]);
+  const [offscreenRendering, setOffscreenRendering] = useState(false);
+  const [offscreenSupported, setOffscreenSupported] = useState(false);
+  const [currentRun, setCurrentRun] = useState<GameRun>({ type: 'standard' });
+  const [dailyHistory, setDailyHistory] = useState(createEmptyDailyHistory);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   // Game state refs (mutable, don't trigger re-renders)
   const gameRef = useRef({
-    balloons: [] as Balloon[],
-    particles: [] as Particle[],
-    nextBalloonId: 0,
-    lastSpawnTime: 0,
-    currentSpawnInterval: 0,
-    currentSpeed: 0,
-    startTime: 0,
-    bonusEndTime: 0,
+    engine: null as GameEngine | null,
+    // Set while a solo run simulates and draws in a worker (see offscreen rendering)
+    worker: null as WorkerEngine | null,
+    workerCanvas: null as HTMLCanvasElement | null,
+    versus: null as VersusMatch | null,
+    versusCrosshairs: [] as Crosshair[],
+    online: null as MultiplayerClient | null,
+    onlineRoom: null as OnlineRoom | null,
+    onlineStartTimer: null as ReturnType<typeof setTimeout> | null,
+    // Pops settled by faster players before this client's countdown ended
+    earlyPops: [] as { balloonId: number; won: boolean }[],
+    loop: null as FixedStepLoop | null,
+    replayPlayer: null as ReplayPlayer | null,
+    replayReturnState: 'menu' as GameState,
+    run: { type: 'standard' } as GameRun,
+    achievements: null as AchievementTracker | null,
+    toasts: [] as CanvasToast[],
+    taps: [] as TapRing[],
+    crosshair: { x: 0, y: 0, active: false } as Crosshair,
+    heldKeys: new Set<string>(),
+    gamepad: createGamepadReader(),
+    aimAssist: false,
+    display: {} as RenderOptions,
+    gameSpeed: 1,
+    lastScoreAnnouncement: 0,
     animationFrameId: 0,
-    audioContext: null as AudioContext | null,
-    isAudioReady: false,
+    audio: null as AudioEngine | null,
     canvasWidth: 0,
     canvasHeight: 0,
   });
@@ -127,465 +285,928 @@ export default function PopTheBalloonGame() {
   // AUDIO SYSTEM
   // ============================================================================
 
+  // Browsers only allow audio after a user gesture, so this runs from click handlers
   const initAudio = () => {
-    if (gameRef.current.audioContext) return;
-    try {
-      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-      gameRef.current.audioContext = new AudioContext();
-      gameRef.current.isAudioReady = true;
-    } catch (e) {
-      console.warn('Audio not supported');
-    }
+    if (gameRef.current.audio) return;
+    gameRef.current.audio = createAudioEngine(audioSettings);
   };
 
   const playSound = (frequency: number, duration: number, type: OscillatorType = 'sine') => {
-    if (!gameRef.current.audioContext || !gameRef.current.isAudioReady) return;
-    
-    try {
-      const ctx = gameRef.current.audioContext;
-      if (ctx.state === 'suspended') {
-        ctx.resume();
-      }
-
-      const oscillator = ctx.createOscillator();
-      const gainNode = ctx.createGain();
+    gameRef.current.audio?.playTone(frequency, duration, type);
+  };
 
-      oscillator.connect(gainNode);
-      gainNode.connect(ctx.destination);
+  // pitch scales every tone except fixed ones, so combos can climb the scale
+  const playSoundEffect = (type: BalloonType, pitch: number = 1) => {
+    gameRef.current.audio?.playNotes(getBalloonType(type).sound, pitch);
+  };
 
-      oscillator.type = type;
-      oscillator.frequency.value = frequency;
+  const updateAudioSettings = (update: (settings: AudioSettings) => AudioSettings) => {
+    setAudioSettings(prev => {
+      const next = update(prev);
+      saveAudioSettings(next);
+      gameRef.current.audio?.setSettings(next);
+      return next;
+    });
+  };
 
-      gainNode.gain.setValueAtTime(0.3, ctx.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+  const toggleMute = () => {
+    updateAudioSettings(settings => ({ ...settings, muted: !settings.muted }));
+  };
 
-      oscillator.start(ctx.currentTime);
-      oscillator.stop(ctx.currentTime + duration);
-    } catch (e) {
-      // Silently fail if audio doesn't work
-    }
+  // Theme changes play a sample so the player can hear the difference
+  const changeAudioSettings = (settings: AudioSettings) => {
+    initAudio();
+    const themeChanged = settings.theme !== audioSettings.theme;
+    updateAudioSettings(() => settings);
+    if (themeChanged) setTimeout(() => playSoundEffect('golden'), 0);
   };
 
-  const playSoundEffect = (type: BalloonType) => {
-    switch (type) {
-      case 'normal':
-        playSound(523.25, 0.1, 'sine'); // C5
+  // ============================================================================
+  // ENGINE EVENTS
+  // ============================================================================
+
+  const handleGameEvent = (event: GameEvent) => {
+    switch (event.type) {
+      case 'pop':
+        // One semitone higher per combo step, topping out after an octave
+        playSoundEffect(event.balloon.type, Math.pow(2, Math.min(Math.max(0, event.combo - 1), 12) / 12));
         break;
-      case 'star':
-        playSound(659.25, 0.15, 'triangle'); // E5
-        playSound(783.99, 0.15, 'triangle'); // G5
+      case 'score': {
+        if (gameRef.current.versus) {
+          setVersusScores(gameRef.current.versus.getScores());
+          break;
+        }
+        setScore(event.score);
+        if (gameRef.current.run.type === 'online') {
+          gameRef.current.online?.send({ type: 'score', score: event.score });
+        }
+        const now = gameRef.current.engine?.getState().now ?? 0;
+        if (now - gameRef.current.lastScoreAnnouncement >= SCORE_ANNOUNCE_INTERVAL) {
+          gameRef.current.lastScoreAnnouncement = now;
+          setAnnouncement(`Score ${event.score}`);
+        }
+        break;
+      }
+      case 'bonusStart':
+        setAnnouncement(`Bonus mode! Points times ${BONUS_MULTIPLIER}`);
+        break;
+      case 'bonusEnd':
+        setAnnouncement('Bonus mode over');
         break;
-      case 'golden':
-        playSound(880, 0.2, 'square'); // A5
-        playSound(1046.5, 0.2, 'square'); // C6
+      case 'gust':
+        setAnnouncement(`Wind gust blowing ${event.wind > 0 ? 'right' : 'left'}`);
         break;
-      case 'bomb':
-        playSound(130.81, 0.3, 'sawtooth'); // C3
+      case 'lifeLost':
+        playSound(196, 0.25, 'triangle'); // G3
         break;
+      case 'shieldUsed':
+        playSound(1174.66, 0.3, 'triangle'); // D6
+        break;
+      case 'claim':
+        gameRef.current.online?.send({ type: 'claim', balloonId: event.balloon.id });
+        break;
+      case 'gameover': {
+        // Both lanes share a clock, so the second engine to finish ends the match
+        const match = gameRef.current.versus;
+        if (gameRef.current.run.type === 'online') endOnlineRun(event.score);
+        else if (!match) endGame(event.score, event.cause);
+        else if (match.isOver()) endVersus(match);
+        break;
+      }
     }
   };
 
-  // ============================================================================
-  // PARTICLE SYSTEM
-  // ============================================================================
+  // Unlocks are announced in the canvas so play carries on uninterrupted
+  const handleAchievementUnlock = (achievement: AchievementDefinition) => {
+    const { engine, achievements } = gameRef.current;
+    if (!engine || !achievements) return;
 
-  const createParticles = (x: number, y: number, color: string, count: number = 12) => {
-    const particles: Particle[] = [];
-    for (let i = 0; i < count; i++) {
-      const angle = (Math.PI * 2 * i) / count;
-      const speed = 2 + Math.random() * 3;
-      particles.push({
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 1,
-        maxLife: 0.5 + Math.random() * 0.5,
-        color,
-        size: 3 + Math.random() * 3,
-      });
-    }
-    gameRef.current.particles.push(...particles);
+    gameRef.current.toasts.push({
+      icon: achievement.icon,
+      title: `Achievement unlocked: ${achievement.title}`,
+      text: achievement.description,
+      shownAt: engine.getState().now,
+    });
+    playSound(987.77, 0.15, 'triangle'); // B5
+    playSound(1318.5, 0.3, 'triangle'); // E6
+
+    const progress = achievements.getProgress();
+    saveAchievementProgress(progress);
+    setAchievementProgress({ ...progress });
   };
 
   // ============================================================================
-  // BALLOON MANAGEMENT
+  // INPUT HANDLING
   // ============================================================================
 
-  const spawnBalloon = (canvas: HTMLCanvasElement) => {
-    const config = DIFFICULTY_CONFIGS[difficulty];
-    const game = gameRef.current;
+  // Every finger gets its own pointerdown, so simultaneous taps each pop a balloon
+  const handlePointerDown = (e: PointerEvent) => {
+    if (gameState !== 'playing') return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
 
-    // Determine balloon type
-    let type: BalloonType = 'normal';
-    const rand = Math.random();
-    
-    if (rand < config.bombChance) {
-      type = 'bomb';
-    } else if (rand < config.bombChance + config.goldenChance) {
-      type = 'golden';
-    } else if (rand < config.bombChance + config.goldenChance + config.starChance) {
-      type = 'star';
+    const canvas = canvasRef.current;
+    const { engine, versus } = gameRef.current;
+    if (!canvas || (!engine && !versus)) return;
+    e.preventDefault();
+
+    // Convert to canvas coordinates accounting for DPR, then into the letterboxed world
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    const { x, y } = toFieldPoint(
+      (e.clientX - rect.left) * dpr,
+      (e.clientY - rect.top) * dpr,
+      canvas.width,
+      canvas.height,
+      getFieldSize()!
+    );
+
+    gameRef.current.crosshair.active = false;
+    // The worker only hears about the tap later, so it draws the ring itself
+    if (gameRef.current.worker) {
+      engine!.pointerDown(x, y);
+      return;
     }
 
-    // Scale balloon size based on screen size - responsive sizing
-    const baseRadius = Math.min(canvas.width, canvas.height) * 0.05;
-    const radius = baseRadius * (0.8 + Math.random() * 0.4);
-
-    const balloon: Balloon = {
-      id: game.nextBalloonId++,
-      x: radius + Math.random() * (canvas.width - radius * 2),
-      y: canvas.height + radius,
-      vx: (Math.random() - 0.5) * 0.8,
-      vy: -game.currentSpeed * (0.8 + Math.random() * 0.4),
-      radius,
-      type,
-      popped: false,
-      rotation: Math.random() * Math.PI * 2,
-      rotationSpeed: (Math.random() - 0.5) * 0.05,
-    };
+    const engines = versus ? versus.engines : [engine!];
+    const countHits = () => engines.reduce((sum, target) => sum + target.getState().hits, 0);
+    const hitsBefore = countHits();
+    if (versus) versus.pointerDown(x, y);
+    else engine!.pointerDown(x, y);
 
-    game.balloons.push(balloon);
+    gameRef.current.taps.push({ x, y, hit: countHits() > hitsBefore, shownAt: engines[0].getState().now });
   };
 
-  const popBalloon = (balloon: Balloon) => {
-    if (balloon.popped) return;
+  // World size of the running game, with versus lanes side by side
+  const getFieldSize = (): WorldSize | null => {
+    const { engine, versus } = gameRef.current;
+    if (versus) {
+      return { width: versus.getLaneWidth() * versus.engines.length, height: versus.engines[0].getState().height };
+    }
+    return engine ? engine.getState() : null;
+  };
 
-    balloon.popped = true;
-    balloon.popTime = Date.now();
+  const getAimTarget = (
+    engine: GameEngine | null = gameRef.current.engine,
+    crosshair: Crosshair = gameRef.current.crosshair
+  ) => {
+    if (!engine || !gameRef.current.aimAssist) return null;
 
-    playSoundEffect(balloon.type);
+    const state = engine.getState();
+    return findAimTarget(state.balloons, crosshair.x, crosshair.y, Math.min(state.width, state.height) * AIM_ASSIST_RADIUS);
+  };
 
-    // Create particles
-    const color = balloon.type === 'normal' 
-      ? BALLOON_COLORS.normal[Math.floor(Math.random() * BALLOON_COLORS.normal.length)]
-      : BALLOON_COLORS[balloon.type];
-    createParticles(balloon.x, balloon.y, color, balloon.type === 'star' ? 20 : 15);
+  // Keyboard and gamepad pops go through the same recorded pointer input as clicks.
+  // In versus the key picks the player; the gamepad plays as player 1.
+  const popAtCrosshair = (key?: string) => {
+    const { versus } = gameRef.current;
+    const player = versus ? Math.max(0, VERSUS_PLAYERS.findIndex(p => p.popKey === key)) : 0;
+    const engine = versus ? versus.engines[player] : gameRef.current.engine;
+    const crosshair = versus ? gameRef.current.versusCrosshairs[player] : gameRef.current.crosshair;
+    if (!engine || !crosshair) return;
+
+    crosshair.active = true;
+    const target = getAimTarget(engine, crosshair);
+    engine.pointerDown(target?.x ?? crosshair.x, target?.y ?? crosshair.y);
+  };
 
-    // Handle scoring and effects
-    const isBonus = Date.now() < gameRef.current.bonusEndTime;
-    const multiplier = isBonus ? BONUS_MULTIPLIER : 1;
+  // Runs once per simulation step, so aiming pauses along with the game
+  const updateDirectionalInput = (seconds: number) => {
+    const { crosshair, heldKeys, gamepad, versus, versusCrosshairs } = gameRef.current;
+    const field = getFieldSize();
+    if (!field) return;
+
+    // Each versus player steers their own crosshair inside their lane
+    if (versus) {
+      versusCrosshairs.forEach((laneCrosshair, i) => {
+        const [dx, dy] = getKeyboardDirection(heldKeys, VERSUS_PLAYERS[i].directionKeys);
+        if (dx === 0 && dy === 0) return;
+        laneCrosshair.active = true;
+        moveCrosshair(laneCrosshair, dx, dy, seconds, versus.getLaneWidth(), field.height);
+      });
+    }
 
-    switch (balloon.type) {
-      case 'normal':
-        setScore(s => {
-          const next = s + 1 * multiplier;
-          scoreRef.current = next;
-          return next;
-        });
-        break;
-      case 'star':
-        setScore(s => {
-          const next = s + 5 * multiplier;
-          scoreRef.current = next;
-          return next;
-        });
-        break;
-      case 'golden':
-        setScore(s => {
-          const next = s + 3 * multiplier;
-          scoreRef.current = next;
-          return next;
-        });
-        gameRef.current.bonusEndTime = Date.now() + BONUS_DURATION;
-        break;
-      case 'bomb':
-        endGame();
-        break;
+    let [dx, dy] = versus ? [0, 0] : getKeyboardDirection(heldKeys);
+    const pad = gamepad.poll();
+    if (pad) {
+      if (dx === 0 && dy === 0) [dx, dy] = [pad.x, pad.y];
+      if (pad.justPressed.has('confirm')) popAtCrosshair();
+      if (pad.justPressed.has('pause')) pauseGame();
+    }
+
+    if (dx !== 0 || dy !== 0) {
+      const target = versus ? versusCrosshairs[0] : crosshair;
+      target.active = true;
+      moveCrosshair(target, dx, dy, seconds, versus ? versus.getLaneWidth() : field.width, field.height);
     }
   };
 
+  const changeHitTolerance = (hitTolerance: number) => {
+    const next = { ...controlSettings, hitTolerance };
+    saveControlSettings(next);
+    setControlSettings(next);
+  };
+
+  const changeAccessibilitySettings = (settings: AccessibilitySettings) => {
+    saveAccessibilitySettings(settings);
+    setAccessibilitySettings(settings);
+  };
+
+  const changeCosmeticSettings = (settings: CosmeticSettings) => {
+    saveCosmeticSettings(settings);
+    setCosmeticSettings(settings);
+  };
+
+  const toggleAimAssist = () => {
+    const next = { ...controlSettings, aimAssist: !controlSettings.aimAssist };
+    saveControlSettings(next);
+    setControlSettings(next);
+    gameRef.current.aimAssist = next.aimAssist;
+  };
+
+  const toggleOffscreenRendering = () => {
+    saveOffscreenRendering(!offscreenRendering);
+    setOffscreenRendering(!offscreenRendering);
+  };
+
   // ============================================================================
-  // INPUT HANDLING
+  // GAME LOOP
   // ============================================================================
 
-  const handleCanvasClick = (e: MouseEvent | TouchEvent) => {
-    if (gameState !== 'playing') return;
+  const renderFrame = (alpha: number) => {
+    // The worker draws the field; it only needs the page's extras
+    const { worker, crosshair, toasts } = gameRef.current;
+    if (worker) {
+      worker.setOverlay(
+        { toasts, crosshair: crosshair.active ? { x: crosshair.x, y: crosshair.y, target: getAimTarget() } : null },
+        gameRef.current.display
+      );
+      return;
+    }
 
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
 
-    const rect = canvas.getBoundingClientRect();
-    const dpr = window.devicePixelRatio || 1;
+    const versus = gameRef.current.versus;
+    if (versus) {
+      renderVersusFrame(ctx, versus, alpha);
+      return;
+    }
 
-    let clientX: number, clientY: number;
+    const engine = gameRef.current.engine;
+    if (!engine) return;
+
+    const { run, onlineRoom: room } = gameRef.current;
+    const state = engine.getState();
+    gameRef.current.taps = gameRef.current.taps.filter(ring => isTapRingVisible(ring, state.now));
+
+    // The local score is shown as it happens rather than when the server echoes it
+    const scoreboard = run.type === 'online' && room
+      ? rankPlayers(
+          room.players.map(player => (player.id === room.playerId ? { ...player, score: state.score } : player))
+        ).map(player => ({ name: player.name, score: player.score, color: player.color, self: player.id === room.playerId }))
+      : undefined;
+
+    renderFitted(
+      ctx,
+      state,
+      alpha,
+      {
+        toasts,
+        taps: gameRef.current.taps,
+        crosshair: crosshair.active ? { x: crosshair.x, y: crosshair.y, target: getAimTarget() } : null,
+        scoreboard,
+      },
+      gameRef.current.display
+    );
+  };
 
-    if (e instanceof MouseEvent) {
-      clientX = e.clientX;
-      clientY = e.clientY;
-    } else {
-      e.preventDefault();
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    }
+  const renderVersusFrame = (ctx: CanvasRenderingContext2D, match: VersusMatch, alpha: number) => {
+    const leader = match.getLeader();
+    const lanes = match.engines.map((engine, i) => {
+      const crosshair = gameRef.current.versusCrosshairs[i];
+      return {
+        state: engine.getState(),
+        label: VERSUS_PLAYERS[i].label,
+        color: VERSUS_PLAYERS[i].color,
+        leading: leader === i,
+        crosshair: crosshair?.active ? { x: crosshair.x, y: crosshair.y, target: getAimTarget(engine, crosshair) } : null,
+      };
+    });
 
-    // Convert to canvas coordinates accounting for DPR
-    const x = (clientX - rect.left) * dpr;
-    const y = (clientY - rect.top) * dpr;
+    const now = lanes[0].state.now;
+    gameRef.current.taps = gameRef.current.taps.filter(ring => isTapRingVisible(ring, now));
+    const laneWidth = match.getLaneWidth();
+    renderLetterboxed(ctx, laneWidth * lanes.length, lanes[0].state.height, () =>
+      renderVersus(ctx, lanes, laneWidth, alpha, { taps: gameRef.current.taps }, gameRef.current.display)
+    );
+  };
 
-    // Check collision with balloons (reverse order to prioritize front balloons)
-    for (let i = gameRef.current.balloons.length - 1; i >= 0; i--) {
-      const balloon = gameRef.current.balloons[i];
-      if (balloon.popped) continue;
+  const gameLoop = (currentTime: number) => {
+    const loop = gameRef.current.loop;
+    if (!loop || gameState !== 'playing') return;
 
-      const dx = x - balloon.x;
-      const dy = y - balloon.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
+    loop.frame(currentTime);
 
-      if (distance < balloon.radius) {
-        popBalloon(balloon);
-        break; // Only pop one balloon per click
-      }
-    }
+    gameRef.current.animationFrameId = requestAnimationFrame(gameLoop);
   };
 
   // ============================================================================
-  // GAME LOOP
+  // GAME STATE MANAGEMENT
   // ============================================================================
 
-  const updateGame = (canvas: HTMLCanvasElement, deltaTime: number) => {
-    const game = gameRef.current;
-    const config = DIFFICULTY_CONFIGS[difficulty];
-    const currentTime = Date.now();
-
-    // Dynamic difficulty scaling
-    const elapsedSeconds = (currentTime - game.startTime) / 1000;
-    game.currentSpeed = config.baseSpeed + elapsedSeconds * config.speedIncreaseRate;
-    game.currentSpawnInterval = Math.max(
-      300,
-      config.spawnInterval * Math.pow(config.spawnDecreaseRate, elapsedSeconds / 10)
-    );
+  const startGame = (run: GameRun = { type: 'standard' }) => {
+    initAudio();
+
+    gameRef.current.achievements?.dispose();
+    gameRef.current.achievements = null;
+    disposeWorker();
+    gameRef.current.toasts = [];
+    gameRef.current.taps = [];
+
+    gameRef.current.crosshair.active = false;
+    gameRef.current.heldKeys.clear();
+    // Space/Enter must not re-press the menu button that started the run
+    (document.activeElement as HTMLElement | null)?.blur();
+
+    gameRef.current.lastScoreAnnouncement = 0;
+    setAnnouncement('');
+
+    // A slower game speed stretches the real time each step takes, like replay speed
+    const stepRun =
+      run.type === 'versus' ? createVersusRun(run) : run.type === 'online' ? createOnlineRun(run) : createSoloRun(run);
+    const field = getFieldSize()!;
+    centerCrosshair(gameRef.current.crosshair, field.width, field.height);
+    gameRef.current.loop = createFixedStepLoop({
+      timestep: FIXED_TIMESTEP / gameRef.current.gameSpeed,
+      update: () => {
+        updateDirectionalInput(FIXED_TIMESTEP / 1000);
+        stepRun();
+      },
+      render: renderFrame,
+    });
 
-    // Spawn balloons
-    if (currentTime - game.lastSpawnTime > game.currentSpawnInterval) {
-      spawnBalloon(canvas);
-      game.lastSpawnTime = currentTime;
+    // The official daily attempt is used up as soon as it starts
+    if (run.type === 'daily' && run.official) {
+      updateDailyHistory(history => recordDailyResult(history, run.date, 0, true));
     }
 
-    // Update balloons
-    game.balloons = game.balloons.filter(balloon => {
-      if (balloon.popped && currentTime - (balloon.popTime || 0) > 300) {
-        return false; // Remove popped balloons after animation
-      }
+    gameRef.current.run = run;
+    setCurrentRun(run);
+    setScore(0);
+    setGameState('playing');
+  };
+
+  // Creates the run's engine and returns what one simulation step does
+  const createSoloRun = (run: Extract<GameRun, { type: 'standard' | 'daily' }>) => {
+    const customRules = run.type === 'standard' ? run.config ?? null : null;
+    const engineOptions: GameEngineOptions = {
+      difficulty: run.type === 'daily' ? DAILY_DIFFICULTY : customRules ? CUSTOM_BASE_DIFFICULTY : difficulty,
+      config: customRules,
+      mode: run.type === 'daily' ? 'classic' : mode,
+      timeLimit,
+      ...(run.type === 'daily' ? DAILY_WORLD : getWorldSize(gameRef.current.canvasWidth, gameRef.current.canvasHeight)),
+      seed: run.type === 'daily' ? getDailySeed(run.date) : undefined,
+      hitTolerance: controlSettings.hitTolerance,
+      ...getCosmeticOptions(),
+    };
+    const engine =
+      offscreenRendering && isOffscreenRenderingSupported()
+        ? createWorkerRun(engineOptions)
+        : createGameEngine(engineOptions);
+    engine.subscribe(handleGameEvent);
+    gameRef.current.engine = engine;
+    gameRef.current.versus = null;
 
-      balloon.x += balloon.vx;
-      balloon.y += balloon.vy;
-      balloon.rotation += balloon.rotationSpeed;
+    const achievements = createAchievementTracker(engine, achievementProgress, handleAchievementUnlock);
+    gameRef.current.achievements = achievements;
 
-      // Remove balloons that float off screen
-      if (balloon.y + balloon.radius < 0) {
-        return false;
-      }
+    return () => {
+      engine.step(FIXED_TIMESTEP);
+      achievements.update();
+      const state = engine.getState();
+      gameRef.current.audio?.updateMusic({ speed: state.currentSpeed, bonus: state.now < state.bonusEndTime });
+    };
+  };
+
+  // A transferred canvas can't be drawn on from the page again, so each worker
+  // run gets a fresh one laid over the page's canvas, which still takes input
+  const createWorkerRun = (options: GameEngineOptions) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = gameRef.current.canvasWidth;
+    canvas.height = gameRef.current.canvasHeight;
+    Object.assign(canvas.style, { position: 'absolute', inset: '0', width: '100%', height: '100%', pointerEvents: 'none' });
+    canvas.setAttribute('aria-hidden', 'true');
+    canvasRef.current?.after(canvas);
+
+    const worker = createWorkerEngine(canvas, options, {
+      timestep: FIXED_TIMESTEP / gameRef.current.gameSpeed,
+      display: gameRef.current.display,
+    });
+    gameRef.current.worker = worker;
+    gameRef.current.workerCanvas = canvas;
+    return worker;
+  };
+
+  const disposeWorker = () => {
+    gameRef.current.worker?.dispose();
+    gameRef.current.workerCanvas?.remove();
+    gameRef.current.worker = null;
+    gameRef.current.workerCanvas = null;
+  };
+
+  // Versus runs skip achievements, records and replays
+  const createVersusRun = (run: Extract<GameRun, { type: 'versus' }>) => {
+    const match = createVersusMatch({
+      difficulty: run.config ? CUSTOM_BASE_DIFFICULTY : difficulty,
+      config: run.config ?? null,
+      timeLimit,
+      ...getWorldSize(gameRef.current.canvasWidth, gameRef.current.canvasHeight),
+      hitTolerance: controlSettings.hitTolerance,
+      ...getCosmeticOptions(),
+    });
+    match.engines.forEach(engine => engine.subscribe(handleGameEvent));
+    gameRef.current.versus = match;
+    gameRef.current.engine = null;
+
+    gameRef.current.versusCrosshairs = match.engines.map(() => {
+      const crosshair: Crosshair = { x: 0, y: 0, active: false };
+      centerCrosshair(crosshair, match.getLaneWidth(), match.engines[0].getState().height);
+      return crosshair;
+    });
+    setVersusScores(match.getScores());
+
+    return () => {
+      match.step(FIXED_TIMESTEP);
+      const states = match.engines.map(engine => engine.getState());
+      gameRef.current.audio?.updateMusic({
+        speed: states[0].currentSpeed,
+        bonus: states.some(state => state.now < state.bonusEndTime),
+      });
+    };
+  };
 
-      return true;
+  // Online matches are Time Attack on a shared field; the server settles every pop
+  const createOnlineRun = (run: Extract<GameRun, { type: 'online' }>) => {
+    const engine = createGameEngine({
+      difficulty: run.settings.difficulty,
+      mode: 'timeAttack',
+      timeLimit: run.settings.timeLimit,
+      seed: run.seed,
+      ...MULTIPLAYER_FIELD,
+      hitTolerance: controlSettings.hitTolerance,
+      bombPenalty: VERSUS_BOMB_PENALTY,
+      claimPops: true,
+      ...getCosmeticOptions(),
     });
+    engine.subscribe(handleGameEvent);
+    gameRef.current.engine = engine;
+    gameRef.current.versus = null;
+    gameRef.current.earlyPops.forEach(pop => engine.resolveClaim(pop.balloonId, pop.won));
+    gameRef.current.earlyPops = [];
+
+    return () => {
+      engine.step(FIXED_TIMESTEP);
+      const state = engine.getState();
+      gameRef.current.audio?.updateMusic({ speed: state.currentSpeed, bonus: state.now < state.bonusEndTime });
+    };
+  };
+
+  const endVersus = (match: VersusMatch) => {
+    setGameState('gameover');
+    setVersusScores(match.getScores());
+
+    const leader = match.getLeader();
+    setAnnouncement(leader === null ? "Game over. It's a draw" : `Game over. ${VERSUS_PLAYERS[leader].label} wins`);
+    setReplay(null);
+
+    if (gameRef.current.animationFrameId) {
+      cancelAnimationFrame(gameRef.current.animationFrameId);
+    }
+  };
+
+  const getCosmeticOptions = () => ({
+    palette: gameRef.current.display.palette,
+    theme: gameRef.current.display.theme,
+    particleScale: gameRef.current.display.reducedMotion ? REDUCED_PARTICLE_SCALE : 1,
+  });
+
+  const startSelectedGame = () => {
+    startGame(useCustomDifficulty ? { type: 'standard', config: customConfig } : { type: 'standard' });
+  };
+
+  const startDailyChallenge = (official: boolean) => {
+    startGame({ type: 'daily', date: getDailyKey(), official });
+  };
 
-    // Update particles
-    game.particles = game.particles.filter(particle => {
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-      particle.vy += 0.15; // Gravity
-      particle.life -= deltaTime / 1000;
+  // Daily runs can only be retried as practice
+  const restartGame = () => {
+    savePendingEntry();
+    startGame(currentRun.type === 'daily' ? { ...currentRun, official: false } : currentRun);
+  };
 
-      return particle.life > 0;
+  const updateDailyHistory = (update: (history: DailyHistory) => DailyHistory) => {
+    setDailyHistory(prev => {
+      const next = update(prev);
+      saveDailyHistory(next);
+      return next;
     });
   };
 
-  const drawBalloon = (ctx: CanvasRenderingContext2D, balloon: Balloon) => {
-    if (balloon.popped) {
-      // Fade out animation
-      const fadeProgress = Math.min(1, (Date.now() - (balloon.popTime || 0)) / 300);
-      ctx.globalAlpha = 1 - fadeProgress;
+  const endGame = (finalScore: number, cause: GameOverCause) => {
+    setGameState('gameover');
+    setEndCause(cause);
+    setAnnouncement(`Game over. Final score ${finalScore}`);
+
+    if (gameRef.current.engine) {
+      setReplay(
+        createReplay(gameRef.current.engine, {
+          gameSpeed: gameRef.current.gameSpeed,
+          aimAssist: gameRef.current.aimAssist,
+        })
+      );
+      setMaxCombo(gameRef.current.engine.getState().maxCombo);
     }
 
-    ctx.save();
-    ctx.translate(balloon.x, balloon.y);
-    ctx.rotate(balloon.rotation);
+    // Keep progress made this run even if nothing was unlocked
+    const achievements = gameRef.current.achievements;
+    if (achievements) {
+      achievements.update();
+      achievements.dispose();
+      gameRef.current.achievements = null;
+      saveAchievementProgress(achievements.getProgress());
+      setAchievementProgress({ ...achievements.getProgress() });
+    }
 
-    // Draw balloon body
-    let color: string;
-    if (balloon.type === 'normal') {
-      color = BALLOON_COLORS.normal[balloon.id % BALLOON_COLORS.normal.length];
-    } else {
-      color = BALLOON_COLORS[balloon.type];
+    if (gameRef.current.animationFrameId) {
+      cancelAnimationFrame(gameRef.current.animationFrameId);
     }
 
-    // Balloon gradient
-    const gradient = ctx.createRadialGradient(
-      -balloon.radius * 0.3,
-      -balloon.radius * 0.3,
-      balloon.radius * 0.1,
-      0,
-      0,
-      balloon.radius
-    );
-    gradient.addColorStop(0, color);
-    gradient.addColorStop(0.7, color);
-    gradient.addColorStop(1, adjustBrightness(color, -30));
-
-    ctx.fillStyle = gradient;
-    ctx.beginPath();
-    ctx.arc(0, 0, balloon.radius, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Highlight
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
-    ctx.beginPath();
-    ctx.ellipse(-balloon.radius * 0.25, -balloon.radius * 0.25, balloon.radius * 0.3, balloon.radius * 0.2, -Math.PI / 4, 0, Math.PI * 2);
-    ctx.fill();
-
-    // String
-    ctx.strokeStyle = '#666';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(0, balloon.radius);
-    ctx.quadraticCurveTo(balloon.radius * 0.2, balloon.radius * 1.5, balloon.radius * 0.1, balloon.radius * 2);
-    ctx.stroke();
-
-    // Type indicator - scale font size with balloon
-    ctx.font = `${balloon.radius * 0.8}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    
-    if (balloon.type === 'star') {
-      ctx.fillText('⭐', 0, 0);
-    } else if (balloon.type === 'bomb') {
-      ctx.fillText('💣', 0, 0);
-    } else if (balloon.type === 'golden') {
-      ctx.fillText('✨', 0, 0);
+    const run = gameRef.current.run;
+    if (gameRef.current.engine) {
+      const record = createRunRecord(gameRef.current.engine.getState(), cause, run.type === 'daily');
+      saveRunHistory(recordRun(loadRunHistory(), record));
+
+      // Every recorded point counts towards theme and skin milestones
+      const cosmetics = loadCosmeticSettings();
+      const next = { ...cosmetics, totalScore: cosmetics.totalScore + finalScore };
+      const unlocks = getNewUnlocks(cosmetics.totalScore, next.totalScore);
+      changeCosmeticSettings(next);
+      setNewUnlocks(unlocks);
+      if (unlocks.length > 0) {
+        setAnnouncement(`Game over. Final score ${finalScore}. Unlocked ${unlocks.map(item => item.label).join(', ')}`);
+      }
     }
 
-    ctx.restore();
-    ctx.globalAlpha = 1;
+    // Daily runs are tracked in their own history, not the difficulty records
+    if (run.type === 'daily') {
+      updateDailyHistory(history => recordDailyResult(history, run.date, finalScore, run.official));
+      return;
+    }
+    
+    // The entry is saved once the player confirms a name or leaves the screen
+    const engine = gameRef.current.engine;
+    if (!engine) return;
+    const state = engine.getState();
+    const assists = {
+      gameSpeed: gameRef.current.gameSpeed,
+      hitTolerance: engine.options.hitTolerance,
+      aimAssist: gameRef.current.aimAssist,
+    };
+    const key = engine.options.config
+      ? getCustomScoreKey(engine.options.mode, engine.options.config, engine.options.timeLimit)
+      : getScoreKey(engine.options.mode, engine.options.difficulty, engine.options.timeLimit);
+    setSavedRank(null);
+    setGlobalStatus(null);
+    setPendingEntry({
+      key: isAssistedRun(assists) ? getAssistedScoreKey(key) : key,
+      entry: {
+        name: '',
+        score: finalScore,
+        date: new Date().toISOString(),
+        duration: state.elapsed,
+        popped: state.popped,
+        maxBonusStreak: state.maxBonusStreak,
+        ...assists,
+      },
+    });
   };
 
-  const drawParticle = (ctx: CanvasRenderingContext2D, particle: Particle) => {
-    ctx.globalAlpha = particle.life / particle.maxLife;
-    ctx.fillStyle = particle.color;
-    ctx.beginPath();
-    ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.globalAlpha = 1;
+  const savePendingEntry = () => {
+    if (!pendingEntry) return;
+    setPendingEntry(null);
+
+    const { key, entry } = pendingEntry;
+    if (!qualifiesForLeaderboard(leaderboard, key, entry.score)) return;
+
+    const result = addLeaderboardEntry(leaderboard, key, { ...entry, name: playerName });
+    saveLeaderboard(result.leaderboard);
+    setLeaderboard(result.leaderboard);
+    setSavedRank(result.rank);
   };
 
-  const render = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // The server re-simulates the replay, so only the name and replay are sent
+  const submitToGlobalLeaderboard = async () => {
+    if (!replay || replay.config || isAssistedRun(replay) || !playerName.trim()) return;
 
-    // Background gradient
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, '#87CEEB');
-    gradient.addColorStop(1, '#E0F6FF');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    setGlobalStatus('🌍 Verifying run…');
+    try {
+      const result = await submitGlobalScore(playerName.trim(), replay);
+      setGlobalStatus(`🌍 Verified! #${result.rank} worldwide`);
+    } catch (err) {
+      setGlobalStatus(`🌍 ${err instanceof Error ? err.message : 'Could not submit score'}`);
+    }
+  };
 
-    // Draw balloons
-    gameRef.current.balloons.forEach(balloon => drawBalloon(ctx, balloon));
+  // ============================================================================
+  // CUSTOM DIFFICULTY
+  // ============================================================================
 
-    // Draw particles
-    gameRef.current.particles.forEach(particle => drawParticle(ctx, particle));
+  const selectCustomDifficulty = () => {
+    setUseCustomDifficulty(true);
+  };
 
-    // Draw UI
-    drawUI(ctx, canvas);
+  const selectDifficulty = (diff: Difficulty) => {
+    setDifficulty(diff);
+    setUseCustomDifficulty(false);
   };
 
-  const drawUI = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    // Responsive font sizing based on canvas dimensions
-    const baseFontSize = Math.min(canvas.width, canvas.height) * 0.035;
-    const fontSize = Math.max(16, Math.min(baseFontSize, 40));
-    const padding = Math.max(10, canvas.width * 0.02);
-    
-    // Score
-    const displayScore = scoreRef.current;
-    ctx.font = `bold ${fontSize * 1.5}px Arial`;
-    ctx.fillStyle = '#2C3E50';
-    ctx.strokeStyle = '#fff';
-    ctx.lineWidth = Math.max(3, fontSize * 0.15);
-    ctx.textAlign = 'left';
-    ctx.strokeText(`Score: ${displayScore}`, padding, fontSize * 2);
-    ctx.fillText(`Score: ${displayScore}`, padding, fontSize * 2);
-
-    // Bonus indicator
-    const bonusTimeLeft = gameRef.current.bonusEndTime - Date.now();
-    if (bonusTimeLeft > 0) {
-      ctx.font = `bold ${fontSize}px Arial`;
-      ctx.fillStyle = '#FFC107';
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = Math.max(2, fontSize * 0.1);
-      const bonusText = `✨ BONUS x${BONUS_MULTIPLIER} (${Math.ceil(bonusTimeLeft / 1000)}s)`;
-      ctx.strokeText(bonusText, padding, fontSize * 3.5);
-      ctx.fillText(bonusText, padding, fontSize * 3.5);
-    }
+  const applyCustomConfig = (config: DifficultyConfig) => {
+    setCustomConfig(config);
+    setUseCustomDifficulty(true);
+    returnToMenu();
+  };
 
-    // Difficulty
-    ctx.font = `${fontSize * 0.8}px Arial`;
-    ctx.fillStyle = '#34495E';
-    ctx.textAlign = 'right';
-    ctx.fillText(difficulty.toUpperCase(), canvas.width - padding, fontSize * 1.5);
+  const updateCustomPresets = (update: (presets: CustomPreset[]) => CustomPreset[]) => {
+    setCustomPresets(prev => {
+      const next = update(prev);
+      saveCustomPresets(next);
+      return next;
+    });
   };
 
-  const gameLoop = (currentTime: number) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx || gameState !== 'playing') return;
+  const saveCustomPreset = (preset: CustomPreset) => {
+    updateCustomPresets(presets => upsertCustomPreset(presets, preset));
+  };
 
-    const deltaTime = 16; // Approximate 60 FPS
+  const deleteCustomPreset = (name: string) => {
+    updateCustomPresets(presets => presets.filter(preset => preset.name !== name));
+  };
 
-    updateGame(canvas, deltaTime);
-    render(canvas, ctx);
+  const handleResetLeaderboard = (key?: string) => {
+    const next = resetLeaderboard(leaderboard, key);
+    saveLeaderboard(next);
+    setLeaderboard(next);
+  };
 
-    gameRef.current.animationFrameId = requestAnimationFrame(gameLoop);
+  const exportLeaderboard = () => {
+    const blob = new Blob([serializeLeaderboard(leaderboard)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `balloon-leaderboard-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Simulated time only advances while the loop runs, so stopping it freezes
+  // elapsed time, the spawn timer and the bonus countdown together.
+  // Online matches run on everyone's clock at once, so they can't be paused
+  const pauseGame = () => {
+    if (gameRef.current.run.type === 'online') return;
+    setGameState(current => (current === 'playing' ? 'paused' : current));
+  };
+
+  const resumeGame = () => {
+    gameRef.current.loop?.reset();
+    setGameState('playing');
+  };
+
+  const endZenRun = () => {
+    gameRef.current.engine?.end();
+  };
+
+  const returnToMenu = () => {
+    savePendingEntry();
+    setGameState('menu');
   };
 
   // ============================================================================
-  // GAME STATE MANAGEMENT
+  // ONLINE MULTIPLAYER
   // ============================================================================
 
-  const startGame = () => {
+  const updateOnlineRoom = (room: OnlineRoom | null) => {
+    gameRef.current.onlineRoom = room;
+    setOnlineRoom(room);
+  };
+
+  const connectOnline = () => {
+    if (gameRef.current.online) return;
+    setOnlineStatus('connecting');
+    setOnlineError(null);
+    try {
+      gameRef.current.online = createMultiplayerClient();
+    } catch (e) {
+      setOnlineStatus('disconnected');
+    }
+  };
+
+  // Leaving during the countdown must not pull the player into the match
+  const cancelOnlineStart = () => {
+    if (gameRef.current.onlineStartTimer !== null) clearTimeout(gameRef.current.onlineStartTimer);
+    gameRef.current.onlineStartTimer = null;
+    setOnlineStarting(false);
+  };
+
+  // Closing the socket is enough for the server to drop us from the room
+  const disconnectOnline = () => {
+    cancelOnlineStart();
+    gameRef.current.online?.close();
+    gameRef.current.online = null;
+    updateOnlineRoom(null);
+    setOnlineResults(null);
+  };
+
+  const openOnlineLobby = () => {
     initAudio();
-    
-    const game = gameRef.current;
-    const config = DIFFICULTY_CONFIGS[difficulty];
-    
-    game.balloons = [];
-    game.particles = [];
-    game.nextBalloonId = 0;
-    game.lastSpawnTime = Date.now();
-    game.currentSpawnInterval = config.spawnInterval;
-    game.currentSpeed = config.baseSpeed;
-    game.startTime = Date.now();
-    game.bonusEndTime = 0;
+    connectOnline();
+    setGameState('online');
+  };
 
-    setScore(0);
-    scoreRef.current = 0;
-    setGameState('playing');
+  const reconnectOnline = () => {
+    disconnectOnline();
+    connectOnline();
+  };
+
+  const leaveOnline = () => {
+    disconnectOnline();
+    returnToMenu();
+  };
+
+  const createOnlineRoom = (name: string, settings: RoomSettings) => {
+    setPlayerName(name);
+    setOnlineError(null);
+    gameRef.current.online?.send({ type: 'create', name, settings });
+  };
+
+  const joinOnlineRoom = (code: string, name: string) => {
+    setPlayerName(name);
+    setOnlineError(null);
+    gameRef.current.online?.send({ type: 'join', code, name });
+  };
+
+  const leaveOnlineRoom = () => {
+    cancelOnlineStart();
+    gameRef.current.online?.send({ type: 'leave' });
+    updateOnlineRoom(null);
+    setOnlineResults(null);
+  };
+
+  const startOnlineMatch = () => {
+    gameRef.current.online?.send({ type: 'start' });
   };
 
-  const endGame = () => {
+  const endOnlineRun = (finalScore: number) => {
     setGameState('gameover');
-    
-    // Update high score
-    setHighScores(prev => {
-      const newHighScores = { ...prev };
-      if (score > newHighScores[difficulty]) {
-        newHighScores[difficulty] = score;
-        // Save to localStorage
-        try {
-          localStorage.setItem('balloonHighScores', JSON.stringify(newHighScores));
-        } catch (e) {
-          // Ignore localStorage errors
-        }
-      }
-      return newHighScores;
-    });
+    setReplay(null);
+    setAnnouncement(`Time's up. Final score ${finalScore}`);
+    gameRef.current.online?.send({ type: 'finish', score: finalScore });
 
     if (gameRef.current.animationFrameId) {
       cancelAnimationFrame(gameRef.current.animationFrameId);
     }
   };
 
-  const returnToMenu = () => {
-    setGameState('menu');
+  const handleOnlineEvent = (event: MultiplayerEvent) => {
+    const room = gameRef.current.onlineRoom;
+    switch (event.type) {
+      case 'connected':
+        setOnlineStatus('connected');
+        break;
+      case 'disconnected':
+        // Nobody is left to settle pops, so a match in progress ends here too
+        disconnectOnline();
+        setOnlineStatus('disconnected');
+        setOnlineError(onlineStatus === 'connected' ? 'Lost connection to the multiplayer server' : null);
+        setGameState('online');
+        break;
+      case 'joined':
+        updateOnlineRoom({
+          code: event.code,
+          playerId: event.playerId,
+          hostId: event.hostId,
+          players: event.players,
+          settings: event.settings,
+        });
+        setOnlineError(null);
+        break;
+      case 'players':
+        if (room) updateOnlineRoom({ ...room, hostId: event.hostId, players: event.players });
+        break;
+      case 'start':
+        setOnlineStarting(true);
+        setOnlineResults(null);
+        setOnlineError(null);
+        setGameState('online');
+        gameRef.current.earlyPops = [];
+        gameRef.current.onlineStartTimer = setTimeout(() => {
+          gameRef.current.onlineStartTimer = null;
+          setOnlineStarting(false);
+          startGame({ type: 'online', seed: event.seed, settings: event.settings });
+        }, event.startsIn);
+        break;
+      case 'popped':
+        if (!room) break;
+        if (gameRef.current.onlineStartTimer !== null) {
+          gameRef.current.earlyPops.push({ balloonId: event.balloonId, won: event.playerId === room.playerId });
+        } else if (gameRef.current.run.type === 'online') {
+          gameRef.current.engine?.resolveClaim(event.balloonId, event.playerId === room.playerId);
+        }
+        break;
+      case 'results': {
+        setOnlineResults(event.players);
+        const [winner] = event.players;
+        if (winner) setAnnouncement(`Match over. ${winner.id === room?.playerId ? 'You win' : `${winner.name} wins`}`);
+        break;
+      }
+      case 'error':
+        setOnlineError(event.message);
+        break;
+    }
+  };
+
+  // ============================================================================
+  // REPLAY PLAYBACK
+  // ============================================================================
+
+  // Replays keep the canvas size they were recorded at; scale them to fit.
+  const renderReplayFrame = (alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const player = gameRef.current.replayPlayer;
+    if (!ctx || !player) return;
+
+    renderFitted(ctx, player.getEngine().getState(), alpha, {}, gameRef.current.display);
+  };
+
+  const watchReplay = (toWatch: Replay) => {
+    disposeWorker();
+    gameRef.current.replayPlayer = createReplayPlayer(toWatch, getCosmeticOptions());
+    gameRef.current.replayReturnState = gameState;
+    setReplay(toWatch);
+    setReplayTick(0);
+    setReplayPlaying(true);
+    setReplayError(null);
+    setGameState('replay');
+  };
+
+  const toggleReplayPlayback = () => {
+    const player = gameRef.current.replayPlayer;
+    if (!player) return;
+
+    // Pressing play on a finished replay starts it over
+    if (!replayPlaying && player.isFinished()) {
+      player.seek(0);
+      setReplayTick(0);
+    }
+    setReplayPlaying(playing => !playing);
+  };
+
+  const seekReplay = (tick: number) => {
+    const player = gameRef.current.replayPlayer;
+    if (!player) return;
+
+    player.seek(tick);
+    setReplayTick(player.getTick());
+    renderReplayFrame(1);
+  };
+
+  const closeReplay = () => {
+    setReplayPlaying(false);
+    gameRef.current.replayPlayer = null;
+    setGameState(gameRef.current.replayReturnState);
+  };
+
+  const exportReplay = () => {
+    if (!replay) return;
+
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `balloon-replay-${replay.mode}-${replay.difficulty}-${replay.score}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      watchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+    }
   };
 
   // ============================================================================
@@ -604,9 +1225,11 @@ export default function PopTheBalloonGame() {
     canvas.width = rect.width * dpr;
     canvas.height = rect.height * dpr;
 
-    // Store actual dimensions for game logic
+    // The next run picks its world from these; a running game keeps its world
+    // and is letterboxed into the new size
     gameRef.current.canvasWidth = canvas.width;
     gameRef.current.canvasHeight = canvas.height;
+    gameRef.current.worker?.resizeCanvas(canvas.width, canvas.height);
 
     const ctx = canvas.getContext('2d');
     if (ctx) {
@@ -614,6 +1237,13 @@ export default function PopTheBalloonGame() {
       ctx.imageSmoothingEnabled = true;
       ctx.imageSmoothingQuality = 'high';
     }
+
+    // Resizing clears the canvas; redraw so a paused game or replay stays visible
+    if (gameRef.current.replayPlayer) {
+      renderReplayFrame(1);
+    } else {
+      renderFrame(1);
+    }
   };
 
   // ============================================================================
@@ -621,17 +1251,53 @@ export default function PopTheBalloonGame() {
   // ============================================================================
 
   useEffect(() => {
-    // Load high scores from localStorage
-    try {
-      const saved = localStorage.getItem('balloonHighScores');
-      if (saved) {
-        setHighScores(JSON.parse(saved));
-      }
-    } catch (e) {
-      // Ignore localStorage errors
+    const savedLeaderboard = loadLeaderboard();
+    setLeaderboard(savedLeaderboard);
+    setPlayerName(savedLeaderboard.lastName);
+    setAchievementProgress(loadAchievementProgress());
+    const savedControls = loadControlSettings();
+    setControlSettings(savedControls);
+    gameRef.current.aimAssist = savedControls.aimAssist;
+    setDailyHistory(loadDailyHistory());
+    setAccessibilitySettings(loadAccessibilitySettings());
+    setAudioSettings(loadAudioSettings());
+    // Saved straight away so the lifetime score is only seeded from history once
+    const cosmetics = loadCosmeticSettings(getLifetimeTotals(loadRunHistory()).score);
+    saveCosmeticSettings(cosmetics);
+    setCosmeticSettings(cosmetics);
+    setCustomPresets(loadCustomPresets());
+    setOffscreenSupported(isOffscreenRenderingSupported());
+    setOffscreenRendering(loadOffscreenRendering());
+
+    // Share links preselect the custom rules they carry
+    const sharedConfig = decodeDifficultyConfig(window.location.search);
+    if (sharedConfig) {
+      setCustomConfig(sharedConfig);
+      setUseCustomDifficulty(true);
     }
   }, []);
 
+  // Keep the render settings in sync, including OS-level reduced motion changes
+  useEffect(() => {
+    if (!accessibilitySettings) return;
+
+    const applySettings = () => {
+      gameRef.current.display = {
+        palette: accessibilitySettings.palette,
+        patterns: accessibilitySettings.patterns,
+        reducedMotion: isReducedMotion(accessibilitySettings),
+        theme: cosmeticSettings?.theme,
+        skin: cosmeticSettings?.skin,
+      };
+      gameRef.current.gameSpeed = accessibilitySettings.gameSpeed;
+    };
+    applySettings();
+
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    query.addEventListener('change', applySettings);
+    return () => query.removeEventListener('change', applySettings);
+  }, [accessibilitySettings, cosmeticSettings]);
+
   useEffect(() => {
     resizeCanvas();
     
@@ -657,13 +1323,15 @@ export default function PopTheBalloonGame() {
     if (!canvas) return;
 
     if (gameState === 'playing') {
-      canvas.addEventListener('click', handleCanvasClick);
-      canvas.addEventListener('touchstart', handleCanvasClick);
+      canvas.addEventListener('pointerdown', handlePointerDown);
       gameRef.current.animationFrameId = requestAnimationFrame(gameLoop);
+      gameRef.current.worker?.resume();
+      gameRef.current.audio?.startMusic();
 
       return () => {
-        canvas.removeEventListener('click', handleCanvasClick);
-        canvas.removeEventListener('touchstart', handleCanvasClick);
+        canvas.removeEventListener('pointerdown', handlePointerDown);
+        gameRef.current.worker?.pause();
+        gameRef.current.audio?.stopMusic();
         if (gameRef.current.animationFrameId) {
           cancelAnimationFrame(gameRef.current.animationFrameId);
         }
@@ -671,77 +1339,476 @@ export default function PopTheBalloonGame() {
     }
   }, [gameState, difficulty]);
 
+  useEffect(() => {
+    if (gameState !== 'replay') return;
+
+    const player = gameRef.current.replayPlayer;
+    if (!player || !replayPlaying) {
+      renderReplayFrame(1);
+      return;
+    }
+
+    // Speed is applied by shrinking the real time each recorded step takes
+    const loop = createFixedStepLoop({
+      timestep: player.replay.timestep / replaySpeed,
+      update: () => player.stepOnce(),
+      render: alpha => {
+        renderReplayFrame(alpha);
+        setReplayTick(player.getTick());
+        if (player.isFinished()) setReplayPlaying(false);
+      },
+    });
+
+    let frameId = 0;
+    const tick = (timestamp: number) => {
+      loop.frame(timestamp);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [gameState, replayPlaying, replaySpeed]);
+
+  useEffect(() => {
+    if (gameState !== 'playing' && gameState !== 'paused') return;
+
+    const { heldKeys } = gameRef.current;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (gameState === 'playing' && isDirectionKey(key)) {
+        e.preventDefault();
+        heldKeys.add(key);
+        return;
+      }
+      if (gameState === 'playing' && POP_KEYS.includes(key)) {
+        e.preventDefault();
+        if (!e.repeat) popAtCrosshair(key);
+        return;
+      }
+      if (key === 'm') {
+        toggleMute();
+        return;
+      }
+      if (key !== 'escape' && key !== 'p') return;
+      e.preventDefault();
+      if (gameState === 'playing') {
+        pauseGame();
+      } else {
+        resumeGame();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      heldKeys.delete(e.key.toLowerCase());
+    };
+
+    // Auto-pause when the player switches tabs or the window loses focus
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      heldKeys.clear();
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', pauseGame);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameState]);
+
+  // Server messages are handled with the current render's state
+  useEffect(() => gameRef.current.online?.subscribe(handleOnlineEvent));
+
+  useEffect(
+    () => () => {
+      if (gameRef.current.onlineStartTimer !== null) clearTimeout(gameRef.current.onlineStartTimer);
+      gameRef.current.onlineStartTimer = null;
+      gameRef.current.online?.close();
+    },
+    []
+  );
+
+  useEffect(() => () => disposeWorker(), []);
+
+  // Esc already resumes from the pause screen, so it has no back action here
+  const menuBack = gameState === 'online'
+    ? leaveOnline
+    : ['leaderboard', 'achievements', 'accessibility', 'audio', 'customize', 'custom'].includes(gameState)
+      ? returnToMenu
+      : undefined;
+  useMenuNavigation(gameState !== 'playing' && gameState !== 'replay', menuBack);
+
   // ============================================================================
   // RENDER
   // ============================================================================
 
+  const runRules = currentRun.type === 'standard' ? currentRun.config : undefined;
+  const runAssisted = currentRun.type === 'standard' && replay !== null && isAssistedRun(replay);
+  const runKey = runRules ? getCustomScoreKey(mode, runRules, timeLimit) : getScoreKey(mode, difficulty, timeLimit);
+  const bestScore = getBestScore(leaderboard, runAssisted ? getAssistedScoreKey(runKey) : runKey);
+  const customBestScore = getBestScore(leaderboard, getCustomScoreKey(mode, customConfig, timeLimit));
+  const canSaveEntry = pendingEntry !== null && qualifiesForLeaderboard(leaderboard, pendingEntry.key, pendingEntry.entry.score);
+
   return (
     <div ref={containerRef} style={styles.container}>
       <canvas
         ref={canvasRef}
         style={styles.canvas}
+        role="img"
+        aria-label={`Pop the Balloon playfield. Score ${score}`}
       />
 
+      {/* Screen reader announcements */}
+      <div aria-live="polite" role="status" style={styles.srOnly}>
+        {announcement}
+      </div>
+
+      {gameState === 'playing' && (
+        <>
+          {currentRun.type !== 'online' && (
+            <button onClick={pauseGame} style={styles.pauseButton} aria-label="Pause game">
+              ⏸
+            </button>
+          )}
+          <button
+            onClick={toggleMute}
+            style={styles.muteButton}
+            aria-label={audioSettings.muted ? 'Unmute' : 'Mute'}
+            aria-pressed={audioSettings.muted}
+          >
+            {audioSettings.muted ? '🔇' : '🔊'}
+          </button>
+        </>
+      )}
+
       {/* Menu Screen */}
       {gameState === 'menu' && (
         <div style={styles.overlay}>
-          <div style={styles.menu}>
+          <div style={styles.menu} data-nav-root>
             <h1 style={styles.title}>🎈 Pop the Balloon</h1>
             
             <div style={styles.instructions}>
-              <p style={styles.instructionText}>🎈 Normal Balloon = +1 point</p>
-              <p style={styles.instructionText}>⭐ Star Balloon = +5 points</p>
-              <p style={styles.instructionText}>✨ Golden Balloon = Bonus Mode!</p>
-              <p style={styles.instructionText}>💣 Bomb = Game Over!</p>
+              {BALLOON_TYPE_IDS.map(type => {
+                const instruction = getBalloonInstruction(type, mode);
+                return instruction && <p key={type} style={styles.instructionText}>{instruction}</p>;
+              })}
+              <p style={styles.instructionText}>🔥 Pop quickly to build combos — missing breaks them!</p>
+            </div>
+
+            <div style={styles.difficultySection}>
+              <h2 style={styles.difficultyTitle}>Select Mode</h2>
+              <div style={styles.difficultyButtons}>
+                {GAME_MODES.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    style={{
+                      ...styles.difficultyButton,
+                      ...(mode === option ? styles.difficultyButtonActive : {}),
+                    }}
+                  >
+                    {MODE_CONFIGS[option].icon} {MODE_CONFIGS[option].label}
+                  </button>
+                ))}
+              </div>
+              <p style={styles.modeDescription}>{MODE_CONFIGS[mode].description}</p>
+              {mode === 'timeAttack' && (
+                <div style={styles.difficultyButtons}>
+                  {TIME_ATTACK_DURATIONS.map(seconds => (
+                    <button
+                      key={seconds}
+                      onClick={() => setTimeLimit(seconds)}
+                      style={{
+                        ...styles.durationButton,
+                        ...(timeLimit === seconds ? styles.difficultyButtonActive : {}),
+                      }}
+                    >
+                      {seconds}s
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div style={styles.difficultySection}>
               <h2 style={styles.difficultyTitle}>Select Difficulty</h2>
               <div style={styles.difficultyButtons}>
-                {(['easy', 'medium', 'hard'] as Difficulty[]).map(diff => (
+                {DIFFICULTIES.map(diff => (
                   <button
                     key={diff}
-                    onClick={() => setDifficulty(diff)}
+                    onClick={() => selectDifficulty(diff)}
                     style={{
                       ...styles.difficultyButton,
-                      ...(difficulty === diff ? styles.difficultyButtonActive : {}),
+                      ...(!useCustomDifficulty && difficulty === diff ? styles.difficultyButtonActive : {}),
                     }}
                   >
                     {diff.toUpperCase()}
-                    {highScores[diff] > 0 && (
-                      <div style={styles.highScore}>Best: {highScores[diff]}</div>
+                    {getBestScore(leaderboard, getScoreKey(mode, diff, timeLimit)) > 0 && (
+                      <div style={styles.highScore}>Best: {getBestScore(leaderboard, getScoreKey(mode, diff, timeLimit))}</div>
                     )}
                   </button>
                 ))}
+                <button
+                  onClick={selectCustomDifficulty}
+                  style={{
+                    ...styles.difficultyButton,
+                    ...(useCustomDifficulty ? styles.difficultyButtonActive : {}),
+                  }}
+                >
+                  CUSTOM
+                  {customBestScore > 0 && <div style={styles.highScore}>Best: {customBestScore}</div>}
+                </button>
               </div>
+              {useCustomDifficulty && (
+                <button onClick={() => setGameState('custom')} style={styles.linkButton}>
+                  ⚙️ Edit custom rules
+                </button>
+              )}
             </div>
 
-            <button onClick={startGame} style={styles.playButton}>
+            <button onClick={startSelectedGame} style={styles.playButton}>
               Start Game
             </button>
+            <button
+              onClick={() => startGame({ type: 'versus', config: useCustomDifficulty ? customConfig : undefined })}
+              style={styles.versusButton}
+            >
+              👥 Versus (2 players)
+            </button>
+            <p style={styles.hintText}>
+              {timeLimit}s head to head on the same balloons · bombs cost {VERSUS_BOMB_PENALTY} points · tap your
+              half or use {VERSUS_PLAYERS.map(player => player.controlsHint).join(' / ')}
+            </p>
+            <button onClick={openOnlineLobby} style={styles.onlineButton}>
+              🌐 Online Match
+            </button>
+
+            <label style={styles.optionLabel}>
+              <input type="checkbox" checked={controlSettings.aimAssist} onChange={toggleAimAssist} />
+              🎯 Aim assist for keyboard & gamepad
+            </label>
+            <div style={styles.optionLabel}>
+              👆 Tap reach
+              {HIT_TOLERANCE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => changeHitTolerance(option.value)}
+                  aria-pressed={controlSettings.hitTolerance === option.value}
+                  style={{
+                    ...styles.toleranceButton,
+                    ...(controlSettings.hitTolerance === option.value ? styles.toleranceButtonActive : {}),
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p style={styles.hintText}>Arrows/WASD or a gamepad stick aim · Space/Enter or Ⓐ pops</p>
+            <label style={styles.optionLabel}>
+              <input
+                type="checkbox"
+                checked={offscreenSupported && offscreenRendering}
+                disabled={!offscreenSupported}
+                onChange={toggleOffscreenRendering}
+              />
+              ⚡ Run solo games in a background thread
+            </label>
+            {!offscreenSupported && <p style={styles.hintText}>Not supported in this browser</p>}
+
+            <div style={styles.dailySection}>
+              <DailyChallengeCard history={dailyHistory} onPlay={startDailyChallenge} />
+            </div>
+
+            {!useCustomDifficulty && (
+              <div style={styles.dailySection}>
+                <GlobalScoresCard
+                  key={getScoreKey(mode, difficulty, timeLimit)}
+                  mode={mode}
+                  difficulty={difficulty}
+                  timeLimit={timeLimit}
+                />
+              </div>
+            )}
+
+            <button onClick={() => setGameState('leaderboard')} style={styles.linkButton}>
+              🏆 Leaderboard
+            </button>
+            <button onClick={() => setGameState('achievements')} style={styles.linkButton}>
+              🏅 Achievements
+            </button>
+            <button onClick={() => setGameState('accessibility')} style={styles.linkButton}>
+              ♿ Accessibility
+            </button>
+            <button onClick={() => setGameState('audio')} style={styles.linkButton}>
+              🔊 Sound & Music
+            </button>
+            <button onClick={() => setGameState('customize')} style={styles.linkButton}>
+              🎨 Customize
+            </button>
+            <Link href="/stats" style={styles.linkButton}>
+              📊 Stats & History
+            </Link>
+
+            <label style={styles.importLabel}>
+              📂 Import replay
+              <input type="file" accept="application/json,.json" onChange={importReplay} style={styles.hiddenInput} />
+            </label>
+            {replayError && <p style={styles.errorText}>{replayError}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Pause Screen */}
+      {gameState === 'paused' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <h1 style={styles.title}>⏸ Paused</h1>
+            {currentRun.type === 'versus' ? (
+              <VersusScores scores={versusScores} />
+            ) : (
+              <p style={styles.finalScore}>Score: {score}</p>
+            )}
+
+            <div style={styles.gameOverButtons}>
+              <button onClick={resumeGame} style={styles.playButton}>
+                Resume
+              </button>
+              {mode === 'zen' && currentRun.type === 'standard' && (
+                <button onClick={endZenRun} style={styles.menuButton}>
+                  End Run
+                </button>
+              )}
+              <button onClick={restartGame} style={styles.menuButton}>
+                Restart
+              </button>
+              <button onClick={returnToMenu} style={styles.menuButton}>
+                Quit to Menu
+              </button>
+            </div>
+            <label style={styles.optionLabel}>
+              <input type="checkbox" checked={audioSettings.muted} onChange={toggleMute} />
+              🔇 Mute (M)
+            </label>
+            <p style={styles.hintText}>Press Esc or P to resume</p>
+          </div>
+        </div>
+      )}
+
+      {/* Versus Results */}
+      {gameState === 'gameover' && currentRun.type === 'versus' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <h1 style={styles.gameOverTitle}>{getVersusTitle(versusScores)}</h1>
+            <VersusScores scores={versusScores} />
+
+            <div style={styles.gameOverButtons}>
+              <button onClick={restartGame} style={styles.playButton}>
+                Rematch
+              </button>
+              <button onClick={returnToMenu} style={styles.menuButton}>
+                Main Menu
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Online Results */}
+      {gameState === 'gameover' && currentRun.type === 'online' && onlineRoom && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <OnlineResults
+              playerId={onlineRoom.playerId}
+              players={onlineRoom.players}
+              results={onlineResults}
+              onBackToLobby={() => setGameState('online')}
+              onLeave={leaveOnline}
+            />
           </div>
         </div>
       )}
 
       {/* Game Over Screen */}
-      {gameState === 'gameover' && (
+      {gameState === 'gameover' && currentRun.type !== 'versus' && currentRun.type !== 'online' && (
         <div style={styles.overlay}>
-          <div style={styles.menu}>
-            <h1 style={styles.gameOverTitle}>💥 Game Over!</h1>
+          <div style={styles.menu} data-nav-root>
+            <h1 style={styles.gameOverTitle}>{GAME_OVER_TITLES[endCause]}</h1>
             <p style={styles.finalScore}>Final Score: {score}</p>
-            {score >= highScores[difficulty] && score > 0 && (
-              <p style={styles.newHighScore}>🎉 New High Score!</p>
-            )}
-            {highScores[difficulty] > 0 && (
+            {maxCombo > 1 && <p style={styles.highScoreText}>🔥 Max combo: {maxCombo}</p>}
+            {newUnlocks.map(item => (
+              <p key={item.label} style={styles.newHighScore}>
+                🔓 Unlocked {item.icon} {item.label}! Try it in Customize.
+              </p>
+            ))}
+            {currentRun.type === 'daily' ? (
               <p style={styles.highScoreText}>
-                Best ({difficulty}): {highScores[difficulty]}
+                📅 Daily Challenge {currentRun.date} · {currentRun.official ? 'Official attempt' : 'Practice'}
               </p>
+            ) : (
+              <>
+                {(savedRank === 1 || score > bestScore) && score > 0 && (
+                  <p style={styles.newHighScore}>🎉 New High Score!</p>
+                )}
+                {bestScore > 0 && (
+                  <p style={styles.highScoreText}>
+                    Best ({MODE_CONFIGS[mode].label}
+                    {mode === 'timeAttack' && ` ${timeLimit}s`}, {runRules ? 'custom' : difficulty}
+                    {runAssisted && ', assisted'}): {bestScore}
+                  </p>
+                )}
+                {/* Custom and assisted runs are only ranked locally */}
+                {pendingEntry && pendingEntry.entry.score > 0 && (canSaveEntry || (!runRules && !runAssisted)) && (
+                  <form
+                    onSubmit={e => {
+                      e.preventDefault();
+                      savePendingEntry();
+                      submitToGlobalLeaderboard();
+                    }}
+                    style={styles.nameForm}
+                  >
+                    <label htmlFor="player-name" style={styles.nameLabel}>
+                      {canSaveEntry
+                        ? '🏆 You made the leaderboard! Enter your name:'
+                        : 'Enter your name to submit this run to the global leaderboard:'}
+                    </label>
+                    <div style={styles.nameRow}>
+                      <input
+                        id="player-name"
+                        value={playerName}
+                        onChange={e => setPlayerName(e.target.value)}
+                        maxLength={MAX_NAME_LENGTH}
+                        placeholder="AAA"
+                        autoFocus
+                        style={styles.nameInput}
+                      />
+                      <button type="submit" style={styles.saveButton}>
+                        Save
+                      </button>
+                    </div>
+                  </form>
+                )}
+                {savedRank !== null && (
+                  <p style={styles.highScoreText}>🏆 #{savedRank} on the leaderboard</p>
+                )}
+                {globalStatus && <p style={styles.highScoreText}>{globalStatus}</p>}
+              </>
             )}
             
             <div style={styles.gameOverButtons}>
-              <button onClick={startGame} style={styles.playButton}>
-                Play Again
+              <button onClick={restartGame} style={styles.playButton}>
+                {currentRun.type === 'daily' ? 'Practice Again' : 'Play Again'}
               </button>
+              {replay && (
+                <button onClick={() => watchReplay(replay)} style={styles.menuButton}>
+                  Watch Replay
+                </button>
+              )}
               <button onClick={returnToMenu} style={styles.menuButton}>
                 Main Menu
               </button>
@@ -749,20 +1816,119 @@ export default function PopTheBalloonGame() {
           </div>
         </div>
       )}
-    </div>
-  );
-}
 
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
+      {/* Leaderboard Screen */}
+      {gameState === 'leaderboard' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <LeaderboardScreen
+              leaderboard={leaderboard}
+              initialMode={mode}
+              initialDifficulty={difficulty}
+              initialTimeLimit={timeLimit}
+              onReset={handleResetLeaderboard}
+              onExport={exportLeaderboard}
+              onClose={returnToMenu}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Achievements Gallery */}
+      {gameState === 'achievements' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <AchievementsScreen progress={achievementProgress} onClose={returnToMenu} />
+          </div>
+        </div>
+      )}
+
+      {/* Accessibility Settings */}
+      {gameState === 'accessibility' && accessibilitySettings && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <AccessibilityScreen
+              settings={accessibilitySettings}
+              onChange={changeAccessibilitySettings}
+              onClose={returnToMenu}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Sound Settings */}
+      {gameState === 'audio' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <AudioScreen settings={audioSettings} onChange={changeAudioSettings} onClose={returnToMenu} />
+          </div>
+        </div>
+      )}
+
+      {/* Themes & Skins */}
+      {gameState === 'customize' && cosmeticSettings && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <CustomizeScreen settings={cosmeticSettings} onChange={changeCosmeticSettings} onClose={returnToMenu} />
+          </div>
+        </div>
+      )}
+
+      {/* Online Lobby */}
+      {gameState === 'online' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <OnlineLobbyScreen
+              status={onlineStatus}
+              room={onlineRoom}
+              error={onlineError}
+              starting={onlineStarting}
+              defaultName={playerName}
+              defaultSettings={{ difficulty, timeLimit }}
+              onCreate={createOnlineRoom}
+              onJoin={joinOnlineRoom}
+              onStart={startOnlineMatch}
+              onLeaveRoom={leaveOnlineRoom}
+              onReconnect={reconnectOnline}
+              onClose={leaveOnline}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Custom Difficulty Builder */}
+      {gameState === 'custom' && (
+        <div style={styles.overlay}>
+          <div style={styles.menu} data-nav-root>
+            <CustomDifficultyScreen
+              config={customConfig}
+              presets={customPresets}
+              onApply={applyCustomConfig}
+              onSavePreset={saveCustomPreset}
+              onDeletePreset={deleteCustomPreset}
+              onClose={returnToMenu}
+            />
+          </div>
+        </div>
+      )}
 
-function adjustBrightness(color: string, amount: number): string {
-  const num = parseInt(color.replace('#', ''), 16);
-  const r = Math.max(0, Math.min(255, (num >> 16) + amount));
-  const g = Math.max(0, Math.min(255, ((num >> 8) & 0x00FF) + amount));
-  const b = Math.max(0, Math.min(255, (num & 0x0000FF) + amount));
-  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+      {/* Replay Viewer */}
+      {gameState === 'replay' && replay && (
+        <ReplayControls
+          playing={replayPlaying}
+          speed={replaySpeed}
+          tick={replayTick}
+          ticks={replay.ticks}
+          timestep={replay.timestep}
+          onTogglePlay={toggleReplayPlayback}
+          onSpeedChange={setReplaySpeed}
+          onSeek={seekReplay}
+          onExport={exportReplay}
+          onClose={closeReplay}
+        />
+      )}
+    </div>
+  );
 }
 
 // ============================================================================
@@ -859,11 +2025,31 @@ const styles: Record<string, React.CSSProperties> = {
     color: 'white',
     transform: 'scale(1.05)',
   },
+  modeDescription: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    color: '#7F8C8D',
+    margin: '10px 0',
+  },
+  durationButton: {
+    minWidth: 'clamp(60px, 15vw, 80px)',
+    padding: 'clamp(8px, 2vw, 10px) clamp(12px, 3vw, 16px)',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontWeight: 'bold',
+    border: '3px solid #BDC3C7',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+    transition: 'all 0.3s',
+  },
   highScore: {
     fontSize: 'clamp(0.65rem, 1.8vw, 0.75rem)',
     marginTop: 5,
     opacity: 0.8,
   },
+  dailySection: {
+    marginTop: 'clamp(15px, 3vw, 30px)',
+  },
   playButton: {
     width: '100%',
     padding: 'clamp(15px, 3vw, 20px)',
@@ -877,6 +2063,30 @@ const styles: Record<string, React.CSSProperties> = {
     transition: 'all 0.3s',
     boxShadow: '0 4px 15px rgba(39, 174, 96, 0.3)',
   },
+  onlineButton: {
+    width: '100%',
+    marginTop: 10,
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  versusButton: {
+    width: '100%',
+    marginTop: 10,
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    background: 'linear-gradient(90deg, #E74C3C, #3498DB)',
+    color: 'white',
+    cursor: 'pointer',
+  },
   gameOverTitle: {
     fontSize: 'clamp(1.5rem, 5vw, 2.5rem)',
     margin: '0 0 20px 0',
@@ -899,6 +2109,133 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#7F8C8D',
     margin: '10px 0 20px 0',
   },
+  pauseButton: {
+    position: 'absolute',
+    top: 'clamp(10px, 2vw, 20px)',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    width: 'clamp(40px, 8vw, 52px)',
+    height: 'clamp(40px, 8vw, 52px)',
+    fontSize: 'clamp(1rem, 3vw, 1.4rem)',
+    border: '2px solid rgba(255, 255, 255, 0.8)',
+    borderRadius: '50%',
+    backgroundColor: 'rgba(44, 62, 80, 0.6)',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  muteButton: {
+    position: 'absolute',
+    top: 'clamp(10px, 2vw, 20px)',
+    left: 'calc(50% + clamp(28px, 5.5vw, 36px))',
+    width: 'clamp(40px, 8vw, 52px)',
+    height: 'clamp(40px, 8vw, 52px)',
+    fontSize: 'clamp(1rem, 3vw, 1.4rem)',
+    border: '2px solid rgba(255, 255, 255, 0.8)',
+    borderRadius: '50%',
+    backgroundColor: 'rgba(44, 62, 80, 0.6)',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  importLabel: {
+    display: 'inline-block',
+    marginTop: 15,
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  linkButton: {
+    display: 'block',
+    margin: '15px auto 0',
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    fontWeight: 'bold',
+    color: '#F39C12',
+    textDecoration: 'none',
+    cursor: 'pointer',
+  },
+  optionLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '8px',
+    marginTop: 15,
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    cursor: 'pointer',
+  },
+  toleranceButton: {
+    padding: '4px 10px',
+    fontSize: 'clamp(0.75rem, 2vw, 0.9rem)',
+    fontWeight: 'bold',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  toleranceButtonActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  nameForm: {
+    margin: '10px 0 20px 0',
+  },
+  nameLabel: {
+    display: 'block',
+    fontSize: 'clamp(0.9rem, 2.5vw, 1.05rem)',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  nameRow: {
+    display: 'flex',
+    gap: '8px',
+  },
+  nameInput: {
+    flex: '1',
+    minWidth: 0,
+    padding: '10px 12px',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #BDC3C7',
+    borderRadius: 10,
+  },
+  saveButton: {
+    padding: '10px 18px',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    backgroundColor: '#F39C12',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  hiddenInput: {
+    display: 'none',
+  },
+  srOnly: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+  },
+  errorText: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    color: '#E74C3C',
+    margin: '10px 0 0 0',
+  },
+  hintText: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    color: '#95A5A6',
+    margin: '15px 0 0 0',
+  },
   gameOverButtons: {
     display: 'flex',
     flexDirection: 'column',
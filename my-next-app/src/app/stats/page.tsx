@@ -0,0 +1,324 @@
+'use client';
+
+import Link from 'next/link';
+import React, { useEffect, useState } from 'react';
+import { BALLOON_TYPE_IDS, getBalloonType } from '@/game/balloonTypes';
+import {
+  createEmptyRunHistory,
+  getAccuracy,
+  getAccuracyTrend,
+  getDifficultyAverages,
+  getLifetimeTotals,
+  loadRunHistory,
+  runHistoryToCsv,
+  serializeRunHistory,
+  type RunHistory,
+} from '@/game/history';
+import { MODE_CONFIGS } from '@/game/modes';
+
+// ============================================================================
+// STATS PAGE
+// ============================================================================
+
+const RECENT_RUNS = 30;
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+export default function StatsPage() {
+  const [history, setHistory] = useState<RunHistory>(createEmptyRunHistory);
+
+  useEffect(() => {
+    setHistory(loadRunHistory());
+  }, []);
+
+  const totals = getLifetimeTotals(history);
+  const averages = getDifficultyAverages(history);
+  const trend = getAccuracyTrend(history);
+  const recent = history.runs.slice(-RECENT_RUNS);
+  const maxRecentScore = Math.max(1, ...recent.map(run => run.score));
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `balloon-history-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <main style={styles.container}>
+      <div style={styles.panel}>
+        <h1 style={styles.title}>📊 Stats & History</h1>
+
+        {history.runs.length === 0 ? (
+          <p style={styles.empty}>No runs recorded yet. Finish a game and it will show up here.</p>
+        ) : (
+          <>
+            {/* Lifetime totals */}
+            <section style={styles.section}>
+              <h2 style={styles.heading}>Lifetime</h2>
+              <div style={styles.grid}>
+                <Stat label="Runs" value={totals.runs} />
+                <Stat label="Total score" value={totals.score} />
+                <Stat label="Best score" value={totals.bestScore} />
+                <Stat label="Play time" value={formatDuration(totals.playTime)} />
+                <Stat label="Balloons popped" value={totals.pops} />
+                <Stat label="Accuracy" value={formatPercent(getAccuracy(history.runs))} />
+                <Stat label="Bonus time" value={formatDuration(totals.bonusTime)} />
+              </div>
+              <div style={styles.pops}>
+                {BALLOON_TYPE_IDS.filter(type => totals.popsByType[type]).map(type => (
+                  <span key={type} style={styles.pop}>
+                    {getBalloonType(type).icon ?? '🎈'} {totals.popsByType[type]}
+                  </span>
+                ))}
+              </div>
+            </section>
+
+            {/* Per-difficulty averages */}
+            <section style={styles.section}>
+              <h2 style={styles.heading}>Averages by difficulty</h2>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.header}>Difficulty</th>
+                    <th style={styles.header}>Runs</th>
+                    <th style={styles.header}>Score</th>
+                    <th style={styles.header}>Length</th>
+                    <th style={styles.header}>Accuracy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {averages.map(row => (
+                    <tr key={row.difficulty}>
+                      <td style={styles.cell}>{row.difficulty.toUpperCase()}</td>
+                      <td style={styles.cell}>{row.runs}</td>
+                      <td style={styles.cell}>{row.runs > 0 ? row.score.toFixed(1) : '—'}</td>
+                      <td style={styles.cell}>{row.runs > 0 ? formatDuration(row.duration) : '—'}</td>
+                      <td style={styles.cell}>{row.runs > 0 ? formatPercent(row.accuracy) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {/* Recent scores */}
+            <section style={styles.section}>
+              <h2 style={styles.heading}>Last {recent.length} scores</h2>
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={styles.chart} role="img" aria-label="Recent scores">
+                {recent.map((run, i) => {
+                  const barWidth = CHART_WIDTH / RECENT_RUNS;
+                  const barHeight = Math.max(1, (run.score / maxRecentScore) * CHART_HEIGHT);
+                  return (
+                    <rect
+                      key={i}
+                      x={i * barWidth + 1}
+                      y={CHART_HEIGHT - barHeight}
+                      width={barWidth - 2}
+                      height={barHeight}
+                      fill="#3498DB"
+                    >
+                      <title>
+                        {run.score} · {MODE_CONFIGS[run.mode].label} {run.difficulty} · {run.date.slice(0, 10)}
+                      </title>
+                    </rect>
+                  );
+                })}
+              </svg>
+            </section>
+
+            {/* Accuracy trend */}
+            {trend.length > 1 && (
+              <section style={styles.section}>
+                <h2 style={styles.heading}>Accuracy trend (5-run average)</h2>
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={styles.chart} role="img" aria-label="Accuracy trend">
+                  <line x1={0} y1={CHART_HEIGHT / 2} x2={CHART_WIDTH} y2={CHART_HEIGHT / 2} stroke="#ECF0F1" />
+                  <polyline
+                    fill="none"
+                    stroke="#27AE60"
+                    strokeWidth={2}
+                    points={trend
+                      .map((accuracy, i) => `${(i / (trend.length - 1)) * CHART_WIDTH},${(1 - accuracy) * CHART_HEIGHT}`)
+                      .join(' ')}
+                  />
+                </svg>
+                <p style={styles.caption}>
+                  {formatPercent(trend[0])} → {formatPercent(trend[trend.length - 1])}
+                </p>
+              </section>
+            )}
+
+            <div style={styles.actions}>
+              <button onClick={() => download(runHistoryToCsv(history), 'text/csv', 'csv')} style={styles.textButton}>
+                Export CSV
+              </button>
+              <button
+                onClick={() => download(serializeRunHistory(history), 'application/json', 'json')}
+                style={styles.textButton}
+              >
+                Export JSON
+              </button>
+            </div>
+          </>
+        )}
+
+        <Link href="/" style={styles.backButton}>
+          Back to Game
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div style={styles.stat}>
+      <div style={styles.statValue}>{value}</div>
+      <div style={styles.statLabel}>{label}</div>
+    </div>
+  );
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    minHeight: '100vh',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    padding: '20px',
+    boxSizing: 'border-box',
+    backgroundColor: '#87CEEB',
+    fontFamily: 'Arial, sans-serif',
+  },
+  panel: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 'clamp(20px, 5vw, 40px)',
+    maxWidth: '640px',
+    width: '100%',
+    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.3)',
+    textAlign: 'center',
+    boxSizing: 'border-box',
+  },
+  title: {
+    fontSize: 'clamp(1.8rem, 6vw, 2.6rem)',
+    margin: '0 0 clamp(15px, 3vw, 25px) 0',
+    color: '#2C3E50',
+  },
+  empty: {
+    fontSize: 'clamp(0.9rem, 2.5vw, 1.1rem)',
+    color: '#7F8C8D',
+    margin: '30px 0',
+  },
+  section: {
+    marginBottom: 'clamp(15px, 3vw, 25px)',
+  },
+  heading: {
+    fontSize: 'clamp(1.1rem, 3vw, 1.3rem)',
+    color: '#2C3E50',
+    margin: '0 0 10px 0',
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
+    gap: '10px',
+  },
+  stat: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 10,
+    padding: '10px',
+  },
+  statValue: {
+    fontSize: 'clamp(1.1rem, 3vw, 1.4rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  statLabel: {
+    fontSize: '0.8rem',
+    color: '#7F8C8D',
+  },
+  pops: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: '12px',
+    marginTop: 10,
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+  },
+  pop: {
+    fontVariantNumeric: 'tabular-nums',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  header: {
+    padding: '6px 4px',
+    color: '#7F8C8D',
+    borderBottom: '2px solid #ECF0F1',
+  },
+  cell: {
+    padding: '6px 4px',
+    color: '#34495E',
+    borderBottom: '1px solid #ECF0F1',
+  },
+  chart: {
+    width: '100%',
+    height: 'auto',
+    backgroundColor: '#F8F9FA',
+    borderRadius: 10,
+  },
+  caption: {
+    fontSize: '0.85rem',
+    color: '#7F8C8D',
+    margin: '6px 0 0 0',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    margin: '10px 0 20px 0',
+  },
+  textButton: {
+    padding: '8px 14px',
+    fontSize: '0.9rem',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  backButton: {
+    display: 'block',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    color: '#7F8C8D',
+    textDecoration: 'none',
+  },
+};
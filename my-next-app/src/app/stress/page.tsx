@@ -0,0 +1,150 @@
+'use client';
+
+import Link from 'next/link';
+import React, { useEffect, useRef, useState } from 'react';
+import { createFixedStepLoop } from '@/game/loop';
+import { renderGame } from '@/game/render';
+import { createFrameTimer, createStressScenario, type FrameStats } from '@/game/stress';
+
+// ============================================================================
+// STRESS TEST PAGE
+// ============================================================================
+
+const STATS_INTERVAL = 500; // ms between panel updates
+const FRAME_BUDGET = 1000 / 60; // ms
+
+interface StressReport extends FrameStats {
+  balloons: number;
+  particles: number;
+}
+
+export default function StressPage() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [report, setReport] = useState<StressReport | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = window.innerWidth * dpr;
+    canvas.height = window.innerHeight * dpr;
+
+    const scenario = createStressScenario(canvas.width, canvas.height);
+    const timer = createFrameTimer();
+    let lastReport = 0;
+    let frameStart = 0;
+
+    const loop = createFixedStepLoop({
+      update: scenario.update,
+      render: alpha => {
+        renderGame(ctx, scenario.engine.getState(), alpha);
+        timer.record(performance.now() - frameStart);
+      },
+    });
+
+    let animationId = 0;
+    const frame = (timestamp: number) => {
+      frameStart = performance.now();
+      loop.frame(timestamp);
+
+      if (timestamp - lastReport > STATS_INTERVAL) {
+        const state = scenario.engine.getState();
+        setReport({ ...timer.getStats(), balloons: state.balloons.length, particles: state.particles.length });
+        lastReport = timestamp;
+      }
+      animationId = requestAnimationFrame(frame);
+    };
+    animationId = requestAnimationFrame(frame);
+
+    return () => cancelAnimationFrame(animationId);
+  }, []);
+
+  return (
+    <main style={styles.container}>
+      <canvas ref={canvasRef} style={styles.canvas} />
+
+      <div style={styles.panel} aria-live="polite">
+        <h1 style={styles.title}>⏱ Stress Test</h1>
+        {report ? (
+          <>
+            <p style={styles.line}>
+              {report.balloons} balloons · {report.particles} particles
+            </p>
+            <p style={styles.line}>
+              avg {report.average.toFixed(2)}ms · p95 {report.p95.toFixed(2)}ms · worst {report.worst.toFixed(2)}ms
+            </p>
+            <p style={styles.line}>≈ {Math.round(report.fps)} fps of headroom</p>
+            <p style={report.p95 <= FRAME_BUDGET ? styles.pass : styles.fail}>
+              {report.p95 <= FRAME_BUDGET ? '✅ Holds 60fps' : '⚠️ Over the 60fps budget'}
+            </p>
+          </>
+        ) : (
+          <p style={styles.line}>Warming up…</p>
+        )}
+        <Link href="/" style={styles.backButton}>
+          Back to Game
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'fixed',
+    inset: 0,
+    overflow: 'hidden',
+    backgroundColor: '#87CEEB',
+    fontFamily: 'Arial, sans-serif',
+  },
+  canvas: {
+    display: 'block',
+    width: '100%',
+    height: '100%',
+  },
+  panel: {
+    position: 'absolute',
+    top: 10,
+    left: 10,
+    padding: '12px 16px',
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.2)',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  title: {
+    fontSize: '1.2rem',
+    margin: '0 0 8px 0',
+    color: '#2C3E50',
+  },
+  line: {
+    fontSize: '0.9rem',
+    color: '#34495E',
+    margin: '4px 0',
+  },
+  pass: {
+    fontSize: '0.95rem',
+    fontWeight: 'bold',
+    color: '#27AE60',
+    margin: '8px 0',
+  },
+  fail: {
+    fontSize: '0.95rem',
+    fontWeight: 'bold',
+    color: '#E74C3C',
+    margin: '8px 0',
+  },
+  backButton: {
+    display: 'inline-block',
+    marginTop: 4,
+    fontSize: '0.9rem',
+    fontWeight: 'bold',
+    color: '#3498DB',
+  },
+};
@@ -0,0 +1,199 @@
+'use client';
+
+import React from 'react';
+import {
+  BALLOON_PALETTES,
+  GAME_SPEEDS,
+  PALETTE_IDS,
+  type AccessibilitySettings,
+  type ReducedMotionPreference,
+} from '@/game/accessibility';
+import { BALLOON_TYPE_IDS, getBalloonType } from '@/game/balloonTypes';
+
+// ============================================================================
+// ACCESSIBILITY PANEL
+// ============================================================================
+
+const REDUCED_MOTION_OPTIONS: { value: ReducedMotionPreference; label: string }[] = [
+  { value: 'system', label: 'Follow system' },
+  { value: 'always', label: 'Always' },
+  { value: 'never', label: 'Never' },
+];
+
+interface AccessibilityScreenProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+  onClose: () => void;
+}
+
+export default function AccessibilityScreen({ settings, onChange, onClose }: AccessibilityScreenProps) {
+  const update = (changes: Partial<AccessibilitySettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div>
+      <h1 style={styles.title}>♿ Accessibility</h1>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Balloon colors</legend>
+        <div style={styles.options}>
+          {PALETTE_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => update({ palette: id })}
+              aria-pressed={settings.palette === id}
+              style={{ ...styles.option, ...(settings.palette === id ? styles.optionActive : {}) }}
+            >
+              {BALLOON_PALETTES[id].label}
+              <span style={styles.optionDetail}>{BALLOON_PALETTES[id].description}</span>
+            </button>
+          ))}
+        </div>
+        <div style={styles.swatches} aria-hidden>
+          {BALLOON_TYPE_IDS.map(type => {
+            const colors = BALLOON_PALETTES[settings.palette].colors[type] ?? getBalloonType(type).colors;
+            return (
+              <span key={type} style={{ ...styles.swatch, backgroundColor: colors[0] }}>
+                {getBalloonType(type).icon}
+              </span>
+            );
+          })}
+        </div>
+        <label style={styles.checkbox}>
+          <input type="checkbox" checked={settings.patterns} onChange={() => update({ patterns: !settings.patterns })} />
+          High-contrast patterns for each balloon type
+        </label>
+      </fieldset>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Reduce motion</legend>
+        <div style={styles.options}>
+          {REDUCED_MOTION_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ reducedMotion: option.value })}
+              aria-pressed={settings.reducedMotion === option.value}
+              style={{ ...styles.option, ...(settings.reducedMotion === option.value ? styles.optionActive : {}) }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p style={styles.hint}>Stops balloon spin, cuts pop particles and turns off full-screen effects.</p>
+      </fieldset>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Game speed</legend>
+        <div style={styles.options}>
+          {GAME_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => update({ gameSpeed: speed })}
+              aria-pressed={settings.gameSpeed === speed}
+              style={{ ...styles.option, ...(settings.gameSpeed === speed ? styles.optionActive : {}) }}
+            >
+              {Math.round(speed * 100)}%
+            </button>
+          ))}
+        </div>
+        <p style={styles.hint}>Slows the whole game down, timers included.</p>
+      </fieldset>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 15px 0',
+    color: '#2C3E50',
+  },
+  section: {
+    border: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+  },
+  heading: {
+    fontSize: 'clamp(1rem, 3vw, 1.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    margin: '0 auto 10px',
+  },
+  options: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+  },
+  option: {
+    flex: '1',
+    minWidth: 'clamp(70px, 20vw, 90px)',
+    padding: '8px 10px',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontWeight: 'bold',
+    border: '3px solid #BDC3C7',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  optionActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  optionDetail: {
+    display: 'block',
+    fontSize: '0.7rem',
+    fontWeight: 'normal',
+    marginTop: 2,
+  },
+  swatches: {
+    display: 'flex',
+    gap: '6px',
+    justifyContent: 'center',
+    margin: '12px 0',
+  },
+  swatch: {
+    width: 30,
+    height: 30,
+    borderRadius: '50%',
+    border: '2px solid #2C3E50',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontSize: '0.8rem',
+  },
+  checkbox: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '8px',
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    cursor: 'pointer',
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '8px 0 0 0',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { ACHIEVEMENTS, isUnlocked, type AchievementProgress } from '@/game/achievements';
+
+// ============================================================================
+// ACHIEVEMENTS GALLERY
+// ============================================================================
+
+interface AchievementsScreenProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+export default function AchievementsScreen({ progress, onClose }: AchievementsScreenProps) {
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => isUnlocked(progress, achievement.id)).length;
+
+  return (
+    <div>
+      <h1 style={styles.title}>🏅 Achievements</h1>
+      <p style={styles.summary}>
+        {unlockedCount} / {ACHIEVEMENTS.length} unlocked
+      </p>
+
+      <ul style={styles.list}>
+        {ACHIEVEMENTS.map(achievement => {
+          const unlocked = isUnlocked(progress, achievement.id);
+          const best = progress.best[achievement.id] ?? 0;
+
+          return (
+            <li key={achievement.id} style={{ ...styles.card, ...(unlocked ? styles.cardUnlocked : {}) }}>
+              <span style={{ ...styles.icon, ...(unlocked ? {} : styles.iconLocked) }}>
+                {unlocked ? achievement.icon : '🔒'}
+              </span>
+              <div style={styles.body}>
+                <div style={styles.name}>{achievement.title}</div>
+                <div style={styles.description}>{achievement.description}</div>
+                {unlocked ? (
+                  <div style={styles.date}>Unlocked {progress.unlocked[achievement.id].slice(0, 10)}</div>
+                ) : (
+                  <div
+                    style={styles.progressTrack}
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={achievement.goal}
+                    aria-valuenow={best}
+                  >
+                    <div style={{ ...styles.progressFill, width: `${(best / achievement.goal) * 100}%` }} />
+                    <span style={styles.progressText}>
+                      {best} / {achievement.goal}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 8px 0',
+    color: '#2C3E50',
+  },
+  summary: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#7F8C8D',
+    margin: '0 0 15px 0',
+  },
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  card: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '10px 12px',
+    border: '2px solid #ECF0F1',
+    borderRadius: 10,
+    textAlign: 'left',
+  },
+  cardUnlocked: {
+    borderColor: '#F1C40F',
+    backgroundColor: '#FEF9E7',
+  },
+  icon: {
+    fontSize: '2rem',
+    width: 40,
+    textAlign: 'center',
+  },
+  iconLocked: {
+    opacity: 0.5,
+  },
+  body: {
+    flex: '1',
+  },
+  name: {
+    fontSize: 'clamp(0.95rem, 2.5vw, 1.1rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  description: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.9rem)',
+    color: '#7F8C8D',
+    margin: '2px 0 6px 0',
+  },
+  date: {
+    fontSize: '0.8rem',
+    color: '#B7950B',
+  },
+  progressTrack: {
+    position: 'relative',
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ECF0F1',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#3498DB',
+  },
+  progressText: {
+    position: 'absolute',
+    inset: 0,
+    fontSize: '0.7rem',
+    lineHeight: '16px',
+    textAlign: 'center',
+    color: '#2C3E50',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
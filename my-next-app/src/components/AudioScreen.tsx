@@ -0,0 +1,176 @@
+'use client';
+
+import React from 'react';
+import { SOUND_THEMES, SOUND_THEME_IDS, type AudioSettings } from '@/game/audio';
+
+// ============================================================================
+// SOUND SETTINGS
+// ============================================================================
+
+const VOLUME_CHANNELS: { key: 'master' | 'effects' | 'music'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'effects', label: 'Effects' },
+  { key: 'music', label: 'Music' },
+];
+
+interface AudioScreenProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  onClose: () => void;
+}
+
+export default function AudioScreen({ settings, onChange, onClose }: AudioScreenProps) {
+  const update = (changes: Partial<AudioSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div>
+      <h1 style={styles.title}>🔊 Sound & Music</h1>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Volume</legend>
+        {VOLUME_CHANNELS.map(channel => (
+          <label key={channel.key} style={styles.slider}>
+            <span style={styles.sliderLabel}>{channel.label}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(settings[channel.key] * 100)}
+              onChange={e => update({ [channel.key]: Number(e.target.value) / 100 })}
+              disabled={settings.muted}
+              style={styles.range}
+            />
+            <span style={styles.sliderValue}>{Math.round(settings[channel.key] * 100)}%</span>
+          </label>
+        ))}
+        <label style={styles.checkbox}>
+          <input type="checkbox" checked={settings.muted} onChange={() => update({ muted: !settings.muted })} />
+          Mute all sound
+        </label>
+      </fieldset>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Sound theme</legend>
+        <div style={styles.options}>
+          {SOUND_THEME_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => update({ theme: id })}
+              aria-pressed={settings.theme === id}
+              style={{ ...styles.option, ...(settings.theme === id ? styles.optionActive : {}) }}
+            >
+              {SOUND_THEMES[id].label}
+              <span style={styles.optionDetail}>{SOUND_THEMES[id].description}</span>
+            </button>
+          ))}
+        </div>
+        <p style={styles.hint}>Music speeds up with the balloons and brightens during bonus mode.</p>
+      </fieldset>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 15px 0',
+    color: '#2C3E50',
+  },
+  section: {
+    border: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+  },
+  heading: {
+    fontSize: 'clamp(1rem, 3vw, 1.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    margin: '0 auto 10px',
+  },
+  slider: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    margin: '8px 0',
+  },
+  sliderLabel: {
+    width: 70,
+    textAlign: 'left',
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+  },
+  range: {
+    flex: '1',
+    accentColor: '#3498DB',
+  },
+  sliderValue: {
+    width: 45,
+    textAlign: 'right',
+    fontSize: '0.85rem',
+    color: '#7F8C8D',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  checkbox: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '8px',
+    marginTop: 12,
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    cursor: 'pointer',
+  },
+  options: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+  },
+  option: {
+    flex: '1',
+    minWidth: 'clamp(70px, 20vw, 90px)',
+    padding: '8px 10px',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontWeight: 'bold',
+    border: '3px solid #BDC3C7',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  optionActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  optionDetail: {
+    display: 'block',
+    fontSize: '0.7rem',
+    fontWeight: 'normal',
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '8px 0 0 0',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,350 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getBalloonType } from '@/game/balloonTypes';
+import { DIFFICULTIES } from '@/game/config';
+import {
+  CONFIGURABLE_TYPES,
+  CONFIG_FIELDS,
+  CONFIG_FIELD_KEYS,
+  MAX_PRESET_NAME_LENGTH,
+  createCustomConfig,
+  encodeDifficultyConfig,
+  getTotalSpawnChance,
+  validateDifficultyConfig,
+  type CustomPreset,
+} from '@/game/customDifficulty';
+import type { DifficultyConfig } from '@/game/types';
+
+// ============================================================================
+// CUSTOM DIFFICULTY BUILDER
+// ============================================================================
+
+interface CustomDifficultyScreenProps {
+  config: DifficultyConfig;
+  presets: CustomPreset[];
+  onApply: (config: DifficultyConfig) => void;
+  onSavePreset: (preset: CustomPreset) => void;
+  onDeletePreset: (name: string) => void;
+  onClose: () => void;
+}
+
+export default function CustomDifficultyScreen({
+  config,
+  presets,
+  onApply,
+  onSavePreset,
+  onDeletePreset,
+  onClose,
+}: CustomDifficultyScreenProps) {
+  const [draft, setDraft] = useState(config);
+  const [presetName, setPresetName] = useState('');
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  const errors = validateDifficultyConfig(draft);
+  const normalChance = Math.max(0, 1 - getTotalSpawnChance(draft));
+
+  const edit = (changes: Partial<DifficultyConfig>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setShareLink(null);
+  };
+
+  // Chances are edited as percentages
+  const editChance = (type: string, percent: number) => {
+    edit({ spawnChances: { ...draft.spawnChances, [type]: percent / 100 } });
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim() || errors.length > 0) return;
+    onSavePreset({ name: presetName, config: draft });
+    setPresetName('');
+  };
+
+  const share = async () => {
+    const link = `${window.location.origin}${window.location.pathname}?${encodeDifficultyConfig(draft)}`;
+    setShareLink(link);
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus('Link copied to the clipboard');
+    } catch (e) {
+      setShareStatus('Copy the link below to share these rules');
+    }
+  };
+
+  return (
+    <div>
+      <h1 style={styles.title}>⚙️ Custom Difficulty</h1>
+
+      <div style={styles.presetRow}>
+        <span style={styles.label}>Start from:</span>
+        {DIFFICULTIES.map(diff => (
+          <button key={diff} onClick={() => edit(createCustomConfig(diff))} style={styles.smallButton}>
+            {diff.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Speed & spawning</legend>
+        {CONFIG_FIELD_KEYS.map(field => {
+          const limits = CONFIG_FIELDS[field];
+          return (
+            <label key={field} style={styles.field}>
+              <span style={styles.fieldLabel}>{limits.label}</span>
+              <input
+                type="number"
+                min={limits.min}
+                max={limits.max}
+                step={limits.step}
+                value={Number.isNaN(draft[field]) ? '' : draft[field]}
+                onChange={e => edit({ [field]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                style={styles.input}
+              />
+            </label>
+          );
+        })}
+      </fieldset>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Spawn chances (%)</legend>
+        {CONFIGURABLE_TYPES.map(type => {
+          const chance = draft.spawnChances[type] ?? 0;
+          return (
+            <label key={type} style={styles.field}>
+              <span style={styles.fieldLabel}>
+                {getBalloonType(type).icon} {type}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={Number.isNaN(chance) ? '' : Math.round(chance * 1000) / 10}
+                onChange={e => editChance(type, e.target.value === '' ? NaN : Number(e.target.value))}
+                style={styles.input}
+              />
+            </label>
+          );
+        })}
+        <p style={styles.hint}>🎈 Normal balloons fill the rest: {Math.round(normalChance * 1000) / 10}%</p>
+      </fieldset>
+
+      {errors.length > 0 && (
+        <ul style={styles.errors} role="alert">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <button onClick={() => onApply(draft)} disabled={errors.length > 0} style={styles.playButton}>
+        Use These Rules
+      </button>
+
+      <div style={styles.actions}>
+        <button onClick={share} disabled={errors.length > 0} style={styles.textButton}>
+          🔗 Share link
+        </button>
+      </div>
+      {shareStatus && shareLink && (
+        <>
+          <p style={styles.hint}>{shareStatus}</p>
+          <input readOnly value={shareLink} onFocus={e => e.target.select()} style={styles.linkInput} aria-label="Share link" />
+        </>
+      )}
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Presets</legend>
+        <div style={styles.presetRow}>
+          <input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            style={styles.nameInput}
+          />
+          <button onClick={savePreset} disabled={!presetName.trim() || errors.length > 0} style={styles.smallButton}>
+            Save
+          </button>
+        </div>
+        {presets.length === 0 ? (
+          <p style={styles.hint}>No saved presets yet.</p>
+        ) : (
+          <ul style={styles.presetList}>
+            {presets.map(preset => (
+              <li key={preset.name} style={styles.presetItem}>
+                <span style={styles.presetName}>{preset.name}</span>
+                <button onClick={() => edit(preset.config)} style={styles.smallButton}>
+                  Load
+                </button>
+                <button
+                  onClick={() => onDeletePreset(preset.name)}
+                  style={styles.smallButton}
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </fieldset>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 15px 0',
+    color: '#2C3E50',
+  },
+  section: {
+    border: 'none',
+    padding: 0,
+    margin: '0 0 15px 0',
+  },
+  heading: {
+    fontSize: 'clamp(1rem, 3vw, 1.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    margin: '0 auto 8px',
+  },
+  label: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+  },
+  field: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '10px',
+    margin: '6px 0',
+  },
+  fieldLabel: {
+    textAlign: 'left',
+    fontSize: 'clamp(0.8rem, 2.2vw, 0.95rem)',
+    color: '#34495E',
+    textTransform: 'capitalize',
+  },
+  input: {
+    width: 90,
+    padding: '6px 8px',
+    fontSize: '0.95rem',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    fontVariantNumeric: 'tabular-nums',
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '8px 0',
+  },
+  errors: {
+    textAlign: 'left',
+    fontSize: 'clamp(0.8rem, 2vw, 0.9rem)',
+    color: '#E74C3C',
+    margin: '0 0 12px 0',
+    paddingLeft: 20,
+  },
+  playButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    backgroundColor: '#27AE60',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'center',
+    margin: '12px 0',
+  },
+  textButton: {
+    padding: '8px 14px',
+    fontSize: '0.9rem',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  linkInput: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '6px 8px',
+    fontSize: '0.8rem',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    marginBottom: 15,
+  },
+  presetRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '8px',
+    flexWrap: 'wrap',
+    marginBottom: 15,
+  },
+  nameInput: {
+    flex: '1',
+    minWidth: 0,
+    padding: '6px 10px',
+    fontSize: '0.95rem',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+  },
+  smallButton: {
+    padding: '6px 12px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  presetList: {
+    listStyle: 'none',
+    padding: 0,
+    margin: 0,
+  },
+  presetItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 0',
+    borderBottom: '1px solid #ECF0F1',
+  },
+  presetName: {
+    flex: '1',
+    textAlign: 'left',
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
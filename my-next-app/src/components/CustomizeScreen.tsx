@@ -0,0 +1,216 @@
+'use client';
+
+import React from 'react';
+import { getBalloonType } from '@/game/balloonTypes';
+import {
+  BALLOON_SKINS,
+  SKIN_IDS,
+  THEME_IDS,
+  THEMES,
+  isCosmeticUnlocked,
+  type CosmeticSettings,
+} from '@/game/themes';
+
+// ============================================================================
+// CUSTOMIZE SCREEN
+// ============================================================================
+
+const PREVIEW_BALLOONS = 4;
+
+interface CustomizeScreenProps {
+  settings: CosmeticSettings;
+  onChange: (settings: CosmeticSettings) => void;
+  onClose: () => void;
+}
+
+export default function CustomizeScreen({ settings, onChange, onClose }: CustomizeScreenProps) {
+  const update = (changes: Partial<CosmeticSettings>) => onChange({ ...settings, ...changes });
+
+  const nextUnlock = [...Object.values(THEMES), ...Object.values(BALLOON_SKINS)]
+    .filter(item => !isCosmeticUnlocked(item, settings.totalScore))
+    .sort((a, b) => a.unlockScore - b.unlockScore)[0];
+
+  return (
+    <div>
+      <h1 style={styles.title}>🎨 Customize</h1>
+      <p style={styles.total}>
+        Lifetime score: <strong>{settings.totalScore}</strong>
+        {nextUnlock && (
+          <span style={styles.totalDetail}>
+            {nextUnlock.icon} {nextUnlock.label} unlocks in {nextUnlock.unlockScore - settings.totalScore} points
+          </span>
+        )}
+      </p>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Theme</legend>
+        <div style={styles.options}>
+          {THEME_IDS.map(id => {
+            const theme = THEMES[id];
+            const unlocked = isCosmeticUnlocked(theme, settings.totalScore);
+            const colors = theme.balloonColors ?? getBalloonType('normal').colors;
+            return (
+              <button
+                key={id}
+                onClick={() => update({ theme: id })}
+                disabled={!unlocked}
+                aria-pressed={settings.theme === id}
+                style={{
+                  ...styles.option,
+                  ...(settings.theme === id ? styles.optionActive : {}),
+                  ...(unlocked ? {} : styles.optionLocked),
+                }}
+              >
+                <span
+                  style={{
+                    ...styles.preview,
+                    background: `linear-gradient(${theme.background[0]}, ${theme.background[1]})`,
+                  }}
+                  aria-hidden
+                >
+                  {colors.slice(0, PREVIEW_BALLOONS).map(color => (
+                    <span key={color} style={{ ...styles.previewBalloon, backgroundColor: color }} />
+                  ))}
+                </span>
+                {theme.icon} {theme.label}
+                <span style={styles.optionDetail}>
+                  {unlocked ? theme.description : `🔒 ${theme.unlockScore} lifetime points`}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <fieldset style={styles.section}>
+        <legend style={styles.heading}>Balloon skin</legend>
+        <div style={styles.options}>
+          {SKIN_IDS.map(id => {
+            const skin = BALLOON_SKINS[id];
+            const unlocked = isCosmeticUnlocked(skin, settings.totalScore);
+            return (
+              <button
+                key={id}
+                onClick={() => update({ skin: id })}
+                disabled={!unlocked}
+                aria-pressed={settings.skin === id}
+                style={{
+                  ...styles.option,
+                  ...(settings.skin === id ? styles.optionActive : {}),
+                  ...(unlocked ? {} : styles.optionLocked),
+                }}
+              >
+                {skin.icon} {skin.label}
+                <span style={styles.optionDetail}>
+                  {unlocked ? skin.description : `🔒 ${skin.unlockScore} lifetime points`}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        <p style={styles.hint}>Skins only change the look; every balloon still pops the same way.</p>
+      </fieldset>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 10px 0',
+    color: '#2C3E50',
+  },
+  total: {
+    fontSize: 'clamp(0.9rem, 2.5vw, 1.1rem)',
+    color: '#34495E',
+    margin: '0 0 15px 0',
+  },
+  totalDetail: {
+    display: 'block',
+    fontSize: '0.8rem',
+    color: '#95A5A6',
+    marginTop: 4,
+  },
+  section: {
+    border: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+  },
+  heading: {
+    fontSize: 'clamp(1rem, 3vw, 1.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    margin: '0 auto 10px',
+  },
+  options: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+  },
+  option: {
+    flex: '1',
+    minWidth: 'clamp(90px, 25vw, 120px)',
+    padding: '8px 10px',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontWeight: 'bold',
+    border: '3px solid #BDC3C7',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  optionActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  optionLocked: {
+    opacity: 0.55,
+    cursor: 'not-allowed',
+  },
+  optionDetail: {
+    display: 'block',
+    fontSize: '0.7rem',
+    fontWeight: 'normal',
+    marginTop: 2,
+  },
+  preview: {
+    display: 'flex',
+    gap: '4px',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: 28,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  previewBalloon: {
+    width: 12,
+    height: 14,
+    borderRadius: '50%',
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '8px 0 0 0',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  getDailyKey,
+  getDailyResults,
+  getDailyStreaks,
+  hasPlayedOfficial,
+  msUntilNextDaily,
+  type DailyHistory,
+} from '@/game/daily';
+
+// ============================================================================
+// DAILY CHALLENGE CARD
+// ============================================================================
+
+interface DailyChallengeCardProps {
+  history: DailyHistory;
+  onPlay: (official: boolean) => void;
+}
+
+const RECENT_RESULTS = 7;
+
+export default function DailyChallengeCard({ history, onPlay }: DailyChallengeCardProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const today = getDailyKey(now);
+  const played = hasPlayedOfficial(history, today);
+  const todayResult = history.results[today];
+  const streaks = getDailyStreaks(history, now);
+  const recent = getDailyResults(history).slice(0, RECENT_RESULTS);
+
+  return (
+    <div style={styles.card}>
+      <h2 style={styles.title}>📅 Daily Challenge</h2>
+      <p style={styles.text}>
+        {played ? `Today's score: ${todayResult?.score}` : 'Same balloons for everyone today — one official try!'}
+      </p>
+      <p style={styles.text}>
+        🔥 Streak: {streaks.current} {streaks.best > 0 && `(best ${streaks.best})`}
+      </p>
+
+      <button onClick={() => onPlay(!played)} style={played ? styles.practiceButton : styles.playButton}>
+        {played ? 'Practice Daily' : 'Play Daily Challenge'}
+      </button>
+      <p style={styles.countdown}>Next challenge in {formatCountdown(msUntilNextDaily(now))}</p>
+
+      {recent.length > 0 && (
+        <ul style={styles.history}>
+          {recent.map(result => (
+            <li key={result.date} style={styles.historyItem}>
+              <span>{result.date}</span>
+              <span>
+                {result.score ?? '—'}
+                {result.practiceRuns > 0 && ` (practice best ${result.practiceBest})`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    border: '3px solid #F39C12',
+    borderRadius: 10,
+    padding: 'clamp(12px, 3vw, 18px)',
+  },
+  title: {
+    fontSize: 'clamp(1.2rem, 3.5vw, 1.5rem)',
+    color: '#2C3E50',
+    margin: '0 0 10px 0',
+  },
+  text: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    margin: '6px 0',
+  },
+  playButton: {
+    width: '100%',
+    marginTop: 10,
+    padding: 'clamp(10px, 2.5vw, 14px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    backgroundColor: '#F39C12',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  practiceButton: {
+    width: '100%',
+    marginTop: 10,
+    padding: 'clamp(10px, 2.5vw, 14px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #F39C12',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#F39C12',
+    cursor: 'pointer',
+  },
+  countdown: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.9rem)',
+    color: '#7F8C8D',
+    margin: '8px 0 0 0',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  history: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '12px 0 0 0',
+    textAlign: 'left',
+  },
+  historyItem: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#7F8C8D',
+    padding: '3px 0',
+    borderTop: '1px solid #ECF0F1',
+  },
+};
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchGlobalScores, type GlobalScorePage } from '@/game/globalScores';
+import { MODE_CONFIGS } from '@/game/modes';
+import type { Difficulty, GameMode } from '@/game/types';
+
+// ============================================================================
+// GLOBAL SCORES CARD
+// ============================================================================
+
+interface GlobalScoresCardProps {
+  mode: GameMode;
+  difficulty: Difficulty;
+  timeLimit: number;
+}
+
+const PAGE_SIZE = 5;
+
+// Keyed by board in the menu, so switching boards starts again from page 1
+export default function GlobalScoresCard({ mode, difficulty, timeLimit }: GlobalScoresCardProps) {
+  const [page, setPage] = useState(1);
+  const [scores, setScores] = useState<GlobalScorePage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    fetchGlobalScores(mode, difficulty, timeLimit, page, PAGE_SIZE)
+      .then(result => {
+        if (!cancelled) setScores(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load scores');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, difficulty, timeLimit, page]);
+
+  const pageCount = scores ? Math.max(1, Math.ceil(scores.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div style={styles.card}>
+      <h2 style={styles.title}>🌍 Global Top Scores</h2>
+      <p style={styles.subtitle}>
+        {MODE_CONFIGS[mode].label} · {difficulty}
+        {mode === 'timeAttack' && ` · ${timeLimit}s`}
+      </p>
+
+      {error ? (
+        <p style={styles.error}>{error}</p>
+      ) : !scores ? (
+        <p style={styles.text}>Loading…</p>
+      ) : scores.entries.length === 0 ? (
+        <p style={styles.text}>No verified scores yet. Be the first!</p>
+      ) : (
+        <ol start={(scores.page - 1) * scores.pageSize + 1} style={styles.list}>
+          {scores.entries.map(entry => (
+            <li key={entry.id} style={styles.item}>
+              <span style={styles.name}>{entry.name}</span>
+              <span style={styles.score}>{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pageCount > 1 && (
+        <div style={styles.pager}>
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} style={styles.pageButton}>
+            ‹ Prev
+          </button>
+          <span style={styles.text}>
+            {page} / {pageCount}
+          </span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pageCount} style={styles.pageButton}>
+            Next ›
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    border: '3px solid #3498DB',
+    borderRadius: 10,
+    padding: 'clamp(12px, 3vw, 18px)',
+  },
+  title: {
+    fontSize: 'clamp(1.2rem, 3.5vw, 1.5rem)',
+    color: '#2C3E50',
+    margin: '0 0 4px 0',
+  },
+  subtitle: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.9rem)',
+    color: '#7F8C8D',
+    margin: '0 0 10px 0',
+  },
+  text: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    margin: '6px 0',
+  },
+  error: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    color: '#E74C3C',
+    margin: '6px 0',
+  },
+  list: {
+    padding: '0 0 0 24px',
+    margin: 0,
+    textAlign: 'left',
+  },
+  item: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    padding: '3px 0',
+    borderTop: '1px solid #ECF0F1',
+  },
+  name: {
+    display: 'inline-block',
+    width: '70%',
+    fontWeight: 'bold',
+  },
+  score: {
+    color: '#27AE60',
+    fontWeight: 'bold',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  pager: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '12px',
+    marginTop: 8,
+  },
+  pageButton: {
+    padding: '4px 10px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DIFFICULTIES } from '@/game/config';
+import { getLeaderboardEntries, type Leaderboard } from '@/game/leaderboard';
+import { GAME_MODES, MODE_CONFIGS, TIME_ATTACK_DURATIONS, getScoreKey } from '@/game/modes';
+import type { Difficulty, GameMode } from '@/game/types';
+
+// ============================================================================
+// LEADERBOARD SCREEN
+// ============================================================================
+
+interface LeaderboardScreenProps {
+  leaderboard: Leaderboard;
+  initialMode: GameMode;
+  initialDifficulty: Difficulty;
+  initialTimeLimit: number;
+  onReset: (key?: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export default function LeaderboardScreen({
+  leaderboard,
+  initialMode,
+  initialDifficulty,
+  initialTimeLimit,
+  onReset,
+  onExport,
+  onClose,
+}: LeaderboardScreenProps) {
+  const [mode, setMode] = useState(initialMode);
+  const [difficulty, setDifficulty] = useState(initialDifficulty);
+  const [timeLimit, setTimeLimit] = useState(initialTimeLimit);
+
+  const key = getScoreKey(mode, difficulty, timeLimit);
+  const entries = getLeaderboardEntries(leaderboard, key);
+  const boardName = `${MODE_CONFIGS[mode].label}${mode === 'timeAttack' ? ` ${timeLimit}s` : ''} ${difficulty}`;
+
+  const resetBoard = () => {
+    if (window.confirm(`Clear the ${boardName} leaderboard?`)) onReset(key);
+  };
+
+  const resetAll = () => {
+    if (window.confirm('Clear every leaderboard? This cannot be undone.')) onReset();
+  };
+
+  return (
+    <div>
+      <h1 style={styles.title}>🏆 Leaderboard</h1>
+
+      <div style={styles.tabs}>
+        {GAME_MODES.map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            style={{ ...styles.tab, ...(mode === option ? styles.tabActive : {}) }}
+          >
+            {MODE_CONFIGS[option].icon} {MODE_CONFIGS[option].label}
+          </button>
+        ))}
+      </div>
+      {mode === 'timeAttack' && (
+        <div style={styles.tabs}>
+          {TIME_ATTACK_DURATIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setTimeLimit(option)}
+              style={{ ...styles.tab, ...(timeLimit === option ? styles.tabActive : {}) }}
+            >
+              {option}s
+            </button>
+          ))}
+        </div>
+      )}
+      <div style={styles.tabs}>
+        {DIFFICULTIES.map(option => (
+          <button
+            key={option}
+            onClick={() => setDifficulty(option)}
+            style={{ ...styles.tab, ...(difficulty === option ? styles.tabActive : {}) }}
+          >
+            {option.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <p style={styles.empty}>No scores yet — go pop some balloons!</p>
+      ) : (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.header}>#</th>
+              <th style={styles.header}>Name</th>
+              <th style={styles.header}>Score</th>
+              <th style={styles.header}>Time</th>
+              <th style={styles.header}>Popped</th>
+              <th style={styles.header} title="Most pops during one bonus">Bonus</th>
+              <th style={styles.header}>Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr key={index}>
+                <td style={styles.cell}>{index + 1}</td>
+                <td style={{ ...styles.cell, ...styles.name }}>{entry.name}</td>
+                <td style={{ ...styles.cell, ...styles.score }}>{entry.score}</td>
+                <td style={styles.cell}>{entry.duration > 0 ? formatDuration(entry.duration) : '—'}</td>
+                <td style={styles.cell}>{entry.date ? entry.popped : '—'}</td>
+                <td style={styles.cell}>{entry.date ? entry.maxBonusStreak : '—'}</td>
+                <td style={styles.cell}>{entry.date ? entry.date.slice(0, 10) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={styles.actions}>
+        <button onClick={onExport} style={styles.textButton}>
+          Export
+        </button>
+        <button onClick={resetBoard} style={styles.textButton} disabled={entries.length === 0}>
+          Reset this board
+        </button>
+        <button onClick={resetAll} style={styles.dangerButton}>
+          Reset all
+        </button>
+      </div>
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 clamp(12px, 3vw, 20px) 0',
+    color: '#2C3E50',
+  },
+  tabs: {
+    display: 'flex',
+    gap: '6px',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  tab: {
+    padding: '6px 10px',
+    fontSize: 'clamp(0.75rem, 2vw, 0.9rem)',
+    fontWeight: 'bold',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  tabActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  empty: {
+    fontSize: 'clamp(0.9rem, 2.5vw, 1.05rem)',
+    color: '#95A5A6',
+    margin: '30px 0',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    margin: '10px 0',
+    fontSize: 'clamp(0.75rem, 2vw, 0.9rem)',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  header: {
+    padding: '6px 4px',
+    color: '#7F8C8D',
+    borderBottom: '2px solid #ECF0F1',
+  },
+  cell: {
+    padding: '6px 4px',
+    color: '#34495E',
+    borderBottom: '1px solid #ECF0F1',
+  },
+  name: {
+    textAlign: 'left',
+    fontWeight: 'bold',
+  },
+  score: {
+    fontWeight: 'bold',
+    color: '#27AE60',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    margin: '15px 0',
+  },
+  textButton: {
+    padding: '6px 12px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  dangerButton: {
+    padding: '6px 12px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid #E74C3C',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#E74C3C',
+    cursor: 'pointer',
+  },
+  backButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,335 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DIFFICULTIES } from '@/game/config';
+import { MAX_NAME_LENGTH } from '@/game/leaderboard';
+import { TIME_ATTACK_DURATIONS } from '@/game/modes';
+import {
+  MAX_ROOM_PLAYERS,
+  ROOM_CODE_LENGTH,
+  normalizeRoomCode,
+  type ConnectionStatus,
+  type OnlineRoom,
+  type RoomSettings,
+} from '@/game/multiplayer';
+
+// ============================================================================
+// ONLINE LOBBY
+// ============================================================================
+
+interface OnlineLobbyScreenProps {
+  status: ConnectionStatus;
+  room: OnlineRoom | null;
+  error: string | null;
+  /** The host has started the match and the countdown is running. */
+  starting: boolean;
+  defaultName: string;
+  defaultSettings: RoomSettings;
+  onCreate: (name: string, settings: RoomSettings) => void;
+  onJoin: (code: string, name: string) => void;
+  onStart: () => void;
+  onLeaveRoom: () => void;
+  onReconnect: () => void;
+  onClose: () => void;
+}
+
+const STATUS_TEXT: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting to the multiplayer server…',
+  connected: 'Connected',
+  disconnected: "Can't reach the multiplayer server. Start it with: npm run multiplayer",
+};
+
+export default function OnlineLobbyScreen({
+  status,
+  room,
+  error,
+  starting,
+  defaultName,
+  defaultSettings,
+  onCreate,
+  onJoin,
+  onStart,
+  onLeaveRoom,
+  onReconnect,
+  onClose,
+}: OnlineLobbyScreenProps) {
+  const [name, setName] = useState(defaultName);
+  const [code, setCode] = useState('');
+  const [settings, setSettings] = useState(defaultSettings);
+
+  const connected = status === 'connected';
+  const canSubmit = connected && name.trim().length > 0;
+
+  return (
+    <div>
+      <h1 style={styles.title}>🌐 Online Match</h1>
+      <p style={status === 'disconnected' ? styles.errorText : styles.hint}>{STATUS_TEXT[status]}</p>
+      {status === 'disconnected' && (
+        <button onClick={onReconnect} style={styles.smallButton}>
+          Try again
+        </button>
+      )}
+
+      {room ? (
+        <>
+          <p style={styles.label}>Room code</p>
+          <p style={styles.code} aria-label={`Room code ${room.code.split('').join(' ')}`}>
+            {room.code}
+          </p>
+          <p style={styles.hint}>
+            {room.settings.difficulty.toUpperCase()} · {room.settings.timeLimit}s · {room.players.length}/
+            {MAX_ROOM_PLAYERS} players
+          </p>
+
+          <ul style={styles.players}>
+            {room.players.map(player => (
+              <li key={player.id} style={{ ...styles.player, borderColor: player.color }}>
+                <span style={{ color: player.color }}>●</span> {player.name}
+                {player.id === room.playerId && ' (you)'}
+                {player.id === room.hostId && ' 👑'}
+              </li>
+            ))}
+          </ul>
+
+          {starting ? (
+            <p style={styles.starting}>Get ready…</p>
+          ) : room.hostId === room.playerId ? (
+            <>
+              <button onClick={onStart} disabled={!connected} style={styles.playButton}>
+                Start Match
+              </button>
+              {room.players.length < 2 && <p style={styles.hint}>Share the code so friends can join.</p>}
+            </>
+          ) : (
+            <p style={styles.hint}>Waiting for the host to start…</p>
+          )}
+
+          <button onClick={onLeaveRoom} style={styles.backButton}>
+            Leave Room
+          </button>
+        </>
+      ) : (
+        <>
+          <label style={styles.field}>
+            <span style={styles.label}>Your name</span>
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="AAA"
+              style={styles.input}
+            />
+          </label>
+
+          <fieldset style={styles.section}>
+            <legend style={styles.heading}>Create a room</legend>
+            <div style={styles.options}>
+              {DIFFICULTIES.map(diff => (
+                <button
+                  key={diff}
+                  onClick={() => setSettings({ ...settings, difficulty: diff })}
+                  aria-pressed={settings.difficulty === diff}
+                  style={{ ...styles.option, ...(settings.difficulty === diff ? styles.optionActive : {}) }}
+                >
+                  {diff.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <div style={styles.options}>
+              {TIME_ATTACK_DURATIONS.map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => setSettings({ ...settings, timeLimit: seconds })}
+                  aria-pressed={settings.timeLimit === seconds}
+                  style={{ ...styles.option, ...(settings.timeLimit === seconds ? styles.optionActive : {}) }}
+                >
+                  {seconds}s
+                </button>
+              ))}
+            </div>
+            <button onClick={() => onCreate(name.trim(), settings)} disabled={!canSubmit} style={styles.playButton}>
+              Create Room
+            </button>
+          </fieldset>
+
+          <fieldset style={styles.section}>
+            <legend style={styles.heading}>Join a room</legend>
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                if (canSubmit && code.length === ROOM_CODE_LENGTH) onJoin(code, name.trim());
+              }}
+              style={styles.joinRow}
+            >
+              <input
+                value={code}
+                onChange={e => setCode(normalizeRoomCode(e.target.value))}
+                placeholder="CODE"
+                aria-label="Room code"
+                style={{ ...styles.input, ...styles.codeInput }}
+              />
+              <button type="submit" disabled={!canSubmit || code.length !== ROOM_CODE_LENGTH} style={styles.smallButton}>
+                Join
+              </button>
+            </form>
+          </fieldset>
+        </>
+      )}
+
+      {error && (
+        <p style={styles.errorText} role="alert">
+          {error}
+        </p>
+      )}
+
+      <button onClick={onClose} style={styles.backButton}>
+        Back to Menu
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 10px 0',
+    color: '#2C3E50',
+  },
+  section: {
+    border: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+  },
+  heading: {
+    fontSize: 'clamp(1rem, 3vw, 1.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    margin: '0 auto 10px',
+  },
+  label: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    color: '#34495E',
+    margin: '10px 0 0 0',
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '8px 0',
+  },
+  errorText: {
+    fontSize: 'clamp(0.8rem, 2vw, 0.9rem)',
+    color: '#E74C3C',
+    margin: '8px 0',
+  },
+  code: {
+    fontSize: 'clamp(2rem, 8vw, 3rem)',
+    fontWeight: 'bold',
+    letterSpacing: '0.3em',
+    color: '#2C3E50',
+    margin: '0',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  players: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 15px 0',
+  },
+  player: {
+    padding: '8px 12px',
+    margin: '6px 0',
+    border: '2px solid',
+    borderRadius: 8,
+    textAlign: 'left',
+    fontSize: 'clamp(0.9rem, 2.4vw, 1.05rem)',
+    color: '#2C3E50',
+  },
+  starting: {
+    fontSize: 'clamp(1.2rem, 4vw, 1.6rem)',
+    fontWeight: 'bold',
+    color: '#27AE60',
+    margin: '10px 0',
+  },
+  field: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '10px',
+    margin: '0 0 20px 0',
+  },
+  input: {
+    flex: '1',
+    minWidth: 0,
+    padding: '8px 10px',
+    fontSize: '1rem',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+  },
+  codeInput: {
+    textTransform: 'uppercase',
+    letterSpacing: '0.2em',
+    textAlign: 'center',
+  },
+  options: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  option: {
+    flex: '1',
+    padding: '8px 10px',
+    fontSize: 'clamp(0.8rem, 2vw, 0.95rem)',
+    fontWeight: 'bold',
+    border: '3px solid #BDC3C7',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+  optionActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+    color: 'white',
+  },
+  joinRow: {
+    display: 'flex',
+    gap: '8px',
+  },
+  playButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    backgroundColor: '#27AE60',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  smallButton: {
+    padding: '8px 14px',
+    fontSize: '0.9rem',
+    fontWeight: 'bold',
+    border: '2px solid #3498DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    color: '#3498DB',
+    cursor: 'pointer',
+  },
+  backButton: {
+    width: '100%',
+    marginTop: 10,
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
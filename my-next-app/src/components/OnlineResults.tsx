@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import { rankPlayers, type RoomPlayer } from '@/game/multiplayer';
+
+// ============================================================================
+// ONLINE RESULTS
+// ============================================================================
+
+interface OnlineResultsProps {
+  playerId: string;
+  /** Live standings while others are still playing. */
+  players: readonly RoomPlayer[];
+  /** Final standings from the server, null until every round has ended. */
+  results: readonly RoomPlayer[] | null;
+  onBackToLobby: () => void;
+  onLeave: () => void;
+}
+
+function getTitle(results: readonly RoomPlayer[], playerId: string): string {
+  const [first, second] = results;
+  if (!first) return '🏁 Match Over';
+  if (second && second.score === first.score) return "🤝 It's a Tie!";
+  return first.id === playerId ? '🏆 You Win!' : `🏆 ${first.name} Wins!`;
+}
+
+export default function OnlineResults({ playerId, players, results, onBackToLobby, onLeave }: OnlineResultsProps) {
+  const standings = results ?? rankPlayers(players);
+
+  return (
+    <div>
+      <h1 style={styles.title}>{results ? getTitle(results, playerId) : "⏱ Time's Up!"}</h1>
+      {!results && <p style={styles.hint}>Waiting for the other players to finish…</p>}
+
+      <ol style={styles.list}>
+        {standings.map((player, i) => (
+          <li key={player.id} style={{ ...styles.row, borderColor: player.color }}>
+            <span style={styles.rank}>#{i + 1}</span>
+            <span style={{ ...styles.name, color: player.color }}>
+              {player.name}
+              {player.id === playerId && ' (you)'}
+            </span>
+            <span style={styles.score}>
+              {player.score}
+              {!results && !player.finished && ' …'}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      <div style={styles.buttons}>
+        <button onClick={onBackToLobby} disabled={!results} style={styles.playButton}>
+          Back to Lobby
+        </button>
+        <button onClick={onLeave} style={styles.menuButton}>
+          Leave Match
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  title: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.4rem)',
+    margin: '0 0 10px 0',
+    color: '#2C3E50',
+  },
+  hint: {
+    fontSize: 'clamp(0.75rem, 2vw, 0.85rem)',
+    color: '#95A5A6',
+    margin: '0 0 10px 0',
+  },
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '8px 12px',
+    margin: '6px 0',
+    border: '2px solid',
+    borderRadius: 8,
+  },
+  rank: {
+    width: 30,
+    fontWeight: 'bold',
+    color: '#7F8C8D',
+  },
+  name: {
+    flex: '1',
+    textAlign: 'left',
+    fontWeight: 'bold',
+    fontSize: 'clamp(0.9rem, 2.4vw, 1.05rem)',
+  },
+  score: {
+    fontSize: 'clamp(1.1rem, 3vw, 1.4rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  buttons: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  playButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: 10,
+    backgroundColor: '#27AE60',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  menuButton: {
+    width: '100%',
+    padding: 'clamp(12px, 2.5vw, 15px)',
+    fontSize: 'clamp(1rem, 2.5vw, 1.2rem)',
+    fontWeight: 'bold',
+    border: '2px solid #95A5A6',
+    borderRadius: 10,
+    backgroundColor: 'white',
+    color: '#7F8C8D',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,154 @@
+'use client';
+
+import React from 'react';
+import { REPLAY_SPEEDS } from '@/game/replay';
+
+// ============================================================================
+// REPLAY CONTROLS
+// ============================================================================
+
+interface ReplayControlsProps {
+  playing: boolean;
+  speed: number;
+  tick: number;
+  ticks: number;
+  timestep: number;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export default function ReplayControls({
+  playing,
+  speed,
+  tick,
+  ticks,
+  timestep,
+  onTogglePlay,
+  onSpeedChange,
+  onSeek,
+  onExport,
+  onClose,
+}: ReplayControlsProps) {
+  return (
+    <div style={styles.bar}>
+      <div style={styles.row}>
+        <button onClick={onTogglePlay} style={styles.playButton} aria-label={playing ? 'Pause replay' : 'Play replay'}>
+          {playing ? '⏸' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={ticks}
+          value={tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          style={styles.scrubber}
+          aria-label="Replay position"
+        />
+        <span style={styles.time}>
+          {formatTime(tick * timestep)} / {formatTime(ticks * timestep)}
+        </span>
+      </div>
+      <div style={styles.row}>
+        {REPLAY_SPEEDS.map(option => (
+          <button
+            key={option}
+            onClick={() => onSpeedChange(option)}
+            style={{
+              ...styles.speedButton,
+              ...(speed === option ? styles.speedButtonActive : {}),
+            }}
+          >
+            {option}×
+          </button>
+        ))}
+        <button onClick={onExport} style={styles.textButton}>
+          Export
+        </button>
+        <button onClick={onClose} style={styles.textButton}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  bar: {
+    position: 'absolute',
+    left: '50%',
+    bottom: 'clamp(10px, 3vw, 24px)',
+    transform: 'translateX(-50%)',
+    width: 'min(600px, calc(100% - 20px))',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '12px',
+    borderRadius: 12,
+    backgroundColor: 'rgba(44, 62, 80, 0.85)',
+    color: 'white',
+    boxSizing: 'border-box',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '8px',
+    flexWrap: 'wrap',
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    fontSize: '1.1rem',
+    border: 'none',
+    borderRadius: '50%',
+    backgroundColor: '#27AE60',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  scrubber: {
+    flex: '1',
+    minWidth: 120,
+  },
+  time: {
+    fontSize: '0.85rem',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  speedButton: {
+    padding: '6px 10px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid #BDC3C7',
+    borderRadius: 8,
+    backgroundColor: 'transparent',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  speedButtonActive: {
+    borderColor: '#3498DB',
+    backgroundColor: '#3498DB',
+  },
+  textButton: {
+    padding: '6px 12px',
+    fontSize: '0.85rem',
+    fontWeight: 'bold',
+    border: '2px solid white',
+    borderRadius: 8,
+    backgroundColor: 'transparent',
+    color: 'white',
+    cursor: 'pointer',
+  },
+};
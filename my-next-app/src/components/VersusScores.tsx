@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import { VERSUS_PLAYERS } from '@/game/versus';
+
+// ============================================================================
+// VERSUS SCOREBOARD
+// ============================================================================
+
+interface VersusScoresProps {
+  scores: readonly number[];
+}
+
+export default function VersusScores({ scores }: VersusScoresProps) {
+  const best = Math.max(...scores);
+
+  return (
+    <div style={styles.row}>
+      {VERSUS_PLAYERS.map((player, i) => (
+        <div key={player.label} style={{ ...styles.player, borderColor: player.color }}>
+          <span style={{ ...styles.label, color: player.color }}>
+            {scores[i] === best && scores.some(score => score !== best) ? '👑 ' : ''}
+            {player.label}
+          </span>
+          <span style={styles.score}>{scores[i] ?? 0}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  row: {
+    display: 'flex',
+    gap: '12px',
+    justifyContent: 'center',
+    margin: '0 0 20px 0',
+  },
+  player: {
+    flex: '1',
+    display: 'flex',
+    flexDirection: 'column',
+    padding: '10px',
+    border: '3px solid',
+    borderRadius: 10,
+  },
+  label: {
+    fontSize: 'clamp(0.85rem, 2.2vw, 1rem)',
+    fontWeight: 'bold',
+  },
+  score: {
+    fontSize: 'clamp(1.6rem, 5vw, 2.2rem)',
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    fontVariantNumeric: 'tabular-nums',
+  },
+};
@@ -0,0 +1,130 @@
+import type { BalloonType } from './balloonTypes';
+
+// ============================================================================
+// ACCESSIBILITY SETTINGS
+// ============================================================================
+
+const ACCESSIBILITY_STORAGE_KEY = 'balloonAccessibility';
+
+export type PaletteId = 'standard' | 'redGreen' | 'blueYellow';
+export type ReducedMotionPreference = 'system' | 'always' | 'never';
+
+export interface BalloonPalette {
+  label: string;
+  description: string;
+  /** Per-type body colors; types left out keep their registry colors. */
+  colors: Partial<Record<BalloonType, string[]>>;
+}
+
+// Based on the Okabe-Ito and IBM color-blind safe sets, keeping every special
+// type clear of the normal balloon colors.
+export const BALLOON_PALETTES: Record<PaletteId, BalloonPalette> = {
+  standard: {
+    label: 'Standard',
+    description: 'The original colors',
+    colors: {},
+  },
+  redGreen: {
+    label: 'Red-green safe',
+    description: 'For protanopia and deuteranopia',
+    colors: {
+      normal: ['#0072B2', '#CC79A7', '#56B4E9'],
+      bomb: ['#000000'],
+      golden: ['#E69F00'],
+      star: ['#F0E442'],
+      freeze: ['#FFFFFF'],
+      blast: ['#D55E00'],
+      shield: ['#332288'],
+      splitter: ['#009E73'],
+    },
+  },
+  blueYellow: {
+    label: 'Blue-yellow safe',
+    description: 'For tritanopia',
+    colors: {
+      normal: ['#DC267F', '#00A3A3', '#9F4A96'],
+      bomb: ['#000000'],
+      golden: ['#FE6100'],
+      star: ['#FF9DA7'],
+      freeze: ['#FFFFFF'],
+      blast: ['#B30000'],
+      shield: ['#4B0082'],
+      splitter: ['#005F5F'],
+    },
+  },
+};
+
+export const PALETTE_IDS = Object.keys(BALLOON_PALETTES) as PaletteId[];
+
+// Real-time speed of the simulation; the simulation itself is unchanged, but
+// slowed runs are still kept off the ranked boards.
+export const GAME_SPEEDS = [1, 0.85, 0.7, 0.5];
+
+// Share of pop particles kept when reduced motion is on
+export const REDUCED_PARTICLE_SCALE = 0.3;
+
+export interface AccessibilitySettings {
+  palette: PaletteId;
+  /** High-contrast per-type patterns drawn over each balloon. */
+  patterns: boolean;
+  reducedMotion: ReducedMotionPreference;
+  gameSpeed: number;
+}
+
+const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  palette: 'standard',
+  patterns: false,
+  reducedMotion: 'system',
+  gameSpeed: 1,
+};
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  try {
+    const saved = localStorage.getItem(ACCESSIBILITY_STORAGE_KEY);
+    if (saved) {
+      const settings = { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...JSON.parse(saved) };
+      if (!PALETTE_IDS.includes(settings.palette)) settings.palette = 'standard';
+      if (!GAME_SPEEDS.includes(settings.gameSpeed)) settings.gameSpeed = 1;
+      return settings;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return { ...DEFAULT_ACCESSIBILITY_SETTINGS };
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  try {
+    localStorage.setItem(ACCESSIBILITY_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Resolves the preference against the operating system setting. */
+export function isReducedMotion(settings: AccessibilitySettings): boolean {
+  if (settings.reducedMotion !== 'system') return settings.reducedMotion === 'always';
+  return typeof window !== 'undefined' && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+// ============================================================================
+// ASSISTED RUNS
+// ============================================================================
+
+export interface RunAssists {
+  gameSpeed: number;
+  hitTolerance: number;
+  aimAssist: boolean;
+}
+
+/** A slowed game, forgiving taps or a snapping crosshair make a run easier than the ranked rules. */
+export function isAssistedRun(assists: RunAssists): boolean {
+  return assists.gameSpeed !== 1 || assists.hitTolerance > 0 || assists.aimAssist;
+}
+
+/** Assisted runs get a local board of their own next to the ranked one. */
+export function getAssistedScoreKey(key: string): string {
+  return `${key}:assisted`;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ACHIEVEMENTS, type AchievementRunStats } from './achievements';
+import { DIFFICULTY_CONFIGS } from './config';
+import { createGameEngine, type GameSnapshot } from './engine';
+import type { Difficulty, GameMode } from './types';
+import { LANDSCAPE_WORLD } from './world';
+
+const RUN_STATS: AchievementRunStats = { maxGoldenInBonus: 0, longestCleanStreak: 0, cleanStreakStart: null };
+
+// A fresh run's snapshot with the given rules, 2 minutes in and 50 points up
+function createSnapshot(mode: GameMode, difficulty: Difficulty, custom: boolean = false): GameSnapshot {
+  const engine = createGameEngine({
+    difficulty,
+    mode,
+    ...LANDSCAPE_WORLD,
+    seed: 1,
+    config: custom ? DIFFICULTY_CONFIGS[difficulty] : null,
+  });
+  return { ...engine.getState(), elapsed: 120000, score: 50 };
+}
+
+function measure(id: string, state: GameSnapshot) {
+  const achievement = ACHIEVEMENTS.find(candidate => candidate.id === id);
+  assert.ok(achievement);
+  return achievement.measure(state, RUN_STATS);
+}
+
+describe('achievements', () => {
+  test('Survivor only counts modes where the run can be lost', () => {
+    assert.equal(measure('survivor', createSnapshot('classic', 'easy')), 120);
+    assert.equal(measure('survivor', createSnapshot('survival', 'easy')), 120);
+    assert.equal(measure('survivor', createSnapshot('zen', 'easy')), 0);
+    assert.equal(measure('survivor', createSnapshot('timeAttack', 'easy')), 0);
+  });
+
+  test('Hard Boiled needs the Hard preset outside Zen', () => {
+    assert.equal(measure('hardFifty', createSnapshot('classic', 'hard')), 50);
+    assert.equal(measure('hardFifty', createSnapshot('classic', 'hard', true)), 0);
+    assert.equal(measure('hardFifty', createSnapshot('zen', 'hard')), 0);
+    assert.equal(measure('hardFifty', createSnapshot('classic', 'medium')), 0);
+  });
+});
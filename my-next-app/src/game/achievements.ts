@@ -0,0 +1,191 @@
+import { BONUS_DURATION } from './balloonTypes';
+import type { GameEngine, GameSnapshot } from './engine';
+import type { GameMode } from './types';
+
+// ============================================================================
+// ACHIEVEMENT DEFINITIONS
+// ============================================================================
+
+const ACHIEVEMENTS_STORAGE_KEY = 'balloonAchievements';
+// Modes where a run can be lost, so lasting in them means something
+const SURVIVAL_MODES: GameMode[] = ['classic', 'survival'];
+
+/** Per-run counters that can't be read straight off the engine snapshot. */
+export interface AchievementRunStats {
+  /** Most golden balloons popped within one bonus period. */
+  maxGoldenInBonus: number;
+  /** Longest stretch, in ms, between the first hit after a miss and the next miss. */
+  longestCleanStreak: number;
+  /** Simulated time the current clean stretch started; null until the first hit after a miss. */
+  cleanStreakStart: number | null;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  goal: number;
+  /** Current progress towards the goal in this run. */
+  measure: (state: GameSnapshot, run: AchievementRunStats) => number;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'centurion',
+    icon: '💯',
+    title: 'Centurion',
+    description: 'Pop 100 balloons in one run',
+    goal: 100,
+    measure: state => state.popped,
+  },
+  {
+    id: 'goldRush',
+    icon: '✨',
+    title: 'Gold Rush',
+    description: `Pop 3 golden balloons during a single ${BONUS_DURATION / 1000}s bonus`,
+    goal: 3,
+    measure: (state, run) => run.maxGoldenInBonus,
+  },
+  {
+    id: 'hardFifty',
+    icon: '🔥',
+    title: 'Hard Boiled',
+    description: 'Reach 50 points on Hard',
+    goal: 50,
+    // Custom rules and Zen's bomb-free field would both make this easier than Hard
+    measure: state => (!state.custom && state.mode !== 'zen' && state.difficulty === 'hard' ? state.score : 0),
+  },
+  {
+    id: 'survivor',
+    icon: '⏳',
+    title: 'Survivor',
+    description: 'Survive for 2 minutes in Classic or Survival',
+    goal: 120,
+    measure: state => (!state.custom && SURVIVAL_MODES.includes(state.mode) ? Math.floor(state.elapsed / 1000) : 0),
+  },
+  {
+    id: 'sharpshooter',
+    icon: '🎯',
+    title: 'Sharpshooter',
+    description: 'Go 30 seconds without a missed click',
+    goal: 30,
+    measure: (state, run) => {
+      const current = run.cleanStreakStart === null ? 0 : state.now - run.cleanStreakStart;
+      return Math.floor(Math.max(run.longestCleanStreak, current) / 1000);
+    },
+  },
+];
+
+// ============================================================================
+// PROGRESS STORAGE
+// ============================================================================
+
+export interface AchievementProgress {
+  version: 1;
+  /** Best value ever measured per achievement, capped at its goal. */
+  best: Record<string, number>;
+  /** ISO timestamp each achievement was unlocked. */
+  unlocked: Record<string, string>;
+}
+
+export function createEmptyAchievementProgress(): AchievementProgress {
+  return { version: 1, best: {}, unlocked: {} };
+}
+
+export function loadAchievementProgress(): AchievementProgress {
+  try {
+    const saved = localStorage.getItem(ACHIEVEMENTS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed?.version === 1 && parsed.best && parsed.unlocked) return parsed;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return createEmptyAchievementProgress();
+}
+
+export function saveAchievementProgress(progress: AchievementProgress) {
+  try {
+    localStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(progress));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+// ============================================================================
+// RUN TRACKER
+// ============================================================================
+
+export interface AchievementTracker {
+  /** Re-measures every achievement; call after stepping the engine. */
+  update(): void;
+  getProgress(): AchievementProgress;
+  dispose(): void;
+}
+
+/**
+ * Follows one run's events and snapshots, raising stored progress and calling
+ * onUnlock the first time an achievement's goal is reached.
+ */
+export function createAchievementTracker(
+  engine: GameEngine,
+  initialProgress: AchievementProgress,
+  onUnlock: (achievement: AchievementDefinition) => void
+): AchievementTracker {
+  const progress: AchievementProgress = {
+    version: 1,
+    best: { ...initialProgress.best },
+    unlocked: { ...initialProgress.unlocked },
+  };
+  const run: AchievementRunStats = { maxGoldenInBonus: 0, longestCleanStreak: 0, cleanStreakStart: null };
+  let goldenInBonus = 0;
+
+  const update = () => {
+    const state = engine.getState();
+    ACHIEVEMENTS.forEach(achievement => {
+      const value = Math.min(achievement.goal, achievement.measure(state, run));
+      if (value > (progress.best[achievement.id] ?? 0)) progress.best[achievement.id] = value;
+
+      if (value >= achievement.goal && !progress.unlocked[achievement.id]) {
+        progress.unlocked[achievement.id] = new Date().toISOString();
+        onUnlock(achievement);
+      }
+    });
+  };
+
+  const unsubscribe = engine.subscribe(event => {
+    const state = engine.getState();
+    switch (event.type) {
+      case 'pop':
+        // Pop events fire before the balloon's effect, so a golden pop that
+        // starts a bonus sees no bonus running yet
+        if (event.balloon.type === 'golden') {
+          goldenInBonus = state.now < state.bonusEndTime ? goldenInBonus + 1 : 1;
+          run.maxGoldenInBonus = Math.max(run.maxGoldenInBonus, goldenInBonus);
+        }
+        if (run.cleanStreakStart === null) run.cleanStreakStart = state.now;
+        break;
+      case 'miss':
+        if (run.cleanStreakStart !== null) {
+          run.longestCleanStreak = Math.max(run.longestCleanStreak, state.now - run.cleanStreakStart);
+        }
+        run.cleanStreakStart = null;
+        break;
+      default:
+        return;
+    }
+    update();
+  });
+
+  return {
+    update,
+    getProgress: () => progress,
+    dispose: unsubscribe,
+  };
+}
+
+export function isUnlocked(progress: AchievementProgress, id: string): boolean {
+  return Boolean(progress.unlocked[id]);
+}
@@ -0,0 +1,299 @@
+import type { SoundNote } from './balloonTypes';
+import { createRng, randomSeed } from './rng';
+
+// ============================================================================
+// AUDIO SETTINGS
+// ============================================================================
+
+const AUDIO_STORAGE_KEY = 'balloonAudio';
+
+export type SoundThemeId = 'classic' | 'retro' | 'soft';
+
+/** How a theme reshapes the notes listed in the balloon type registry. */
+export interface SoundTheme {
+  label: string;
+  description: string;
+  /** Replaces every note's waveform; unset keeps the registry's. */
+  wave?: OscillatorType;
+  pitch: number;
+  durationScale: number;
+  /** Fade-in time in seconds; 0 starts at full volume. */
+  attack: number;
+  gain: number;
+}
+
+export const SOUND_THEMES: Record<SoundThemeId, SoundTheme> = {
+  classic: {
+    label: 'Classic',
+    description: 'The original pops and chimes',
+    pitch: 1,
+    durationScale: 1,
+    attack: 0,
+    gain: 0.3,
+  },
+  retro: {
+    label: 'Retro',
+    description: 'Chiptune square waves',
+    wave: 'square',
+    pitch: 2,
+    durationScale: 0.6,
+    attack: 0,
+    gain: 0.12,
+  },
+  soft: {
+    label: 'Soft',
+    description: 'Gentle, low sine tones',
+    wave: 'sine',
+    pitch: 0.5,
+    durationScale: 1.5,
+    attack: 0.03,
+    gain: 0.25,
+  },
+};
+
+export const SOUND_THEME_IDS = Object.keys(SOUND_THEMES) as SoundThemeId[];
+
+export interface AudioSettings {
+  /** Volumes in [0, 1]; effects and music are scaled by master. */
+  master: number;
+  effects: number;
+  music: number;
+  muted: boolean;
+  theme: SoundThemeId;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  effects: 1,
+  music: 0.5,
+  muted: false,
+  theme: 'classic',
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = localStorage.getItem(AUDIO_STORAGE_KEY);
+    if (saved) {
+      const settings = { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(saved) };
+      if (!SOUND_THEME_IDS.includes(settings.theme)) settings.theme = 'classic';
+      return settings;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return { ...DEFAULT_AUDIO_SETTINGS };
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    localStorage.setItem(AUDIO_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+// ============================================================================
+// MUSIC
+// ============================================================================
+
+// Tempo follows balloon speed: the base tempo at MUSIC_REFERENCE_SPEED units/s
+const MUSIC_BASE_TEMPO = 96; // bpm
+const MUSIC_REFERENCE_SPEED = 108;
+const MUSIC_MIN_TEMPO = 80;
+const MUSIC_MAX_TEMPO = 180;
+const MUSIC_LOOKAHEAD = 0.12; // s of notes scheduled ahead
+const MUSIC_SCHEDULE_INTERVAL = 25; // ms
+
+// Semitones above the root: minor pentatonic normally, major pentatonic in bonus mode
+const CALM_SCALE = [0, 3, 5, 7, 10, 12, 15];
+const BONUS_SCALE = [0, 2, 4, 7, 9, 12, 14];
+// Chord roots (semitones) cycling every bar
+const PROGRESSION = [0, -4, -7, -2];
+const MUSIC_ROOT = 220; // A3
+const BONUS_TRANSPOSE = 5; // up a fourth
+
+export interface MusicState {
+  /** Current balloon speed, units/s. */
+  speed: number;
+  bonus: boolean;
+}
+
+export function getMusicTempo(speed: number): number {
+  const tempo = MUSIC_BASE_TEMPO * (speed / MUSIC_REFERENCE_SPEED);
+  return Math.max(MUSIC_MIN_TEMPO, Math.min(MUSIC_MAX_TEMPO, tempo));
+}
+
+function semitones(frequency: number, steps: number): number {
+  return frequency * Math.pow(2, steps / 12);
+}
+
+// ============================================================================
+// AUDIO ENGINE
+// ============================================================================
+
+export interface AudioEngine {
+  /** Plays one tone on the effects bus, shaped by the current theme. */
+  playTone(frequency: number, duration: number, wave?: OscillatorType): void;
+  /** Plays a registry sound; pitch scales every note that isn't fixed. */
+  playNotes(notes: readonly SoundNote[], pitch?: number): void;
+  setSettings(settings: AudioSettings): void;
+  startMusic(): void;
+  stopMusic(): void;
+  updateMusic(state: MusicState): void;
+}
+
+/**
+ * Everything is routed through effects and music gain nodes into a master
+ * gain, so volume changes apply instantly to sounds already playing. Returns
+ * null when Web Audio isn't available.
+ */
+export function createAudioEngine(settings: AudioSettings): AudioEngine | null {
+  let ctx: AudioContext;
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    ctx = new AudioContextClass();
+  } catch (e) {
+    console.warn('Audio not supported');
+    return null;
+  }
+
+  const master = ctx.createGain();
+  const effects = ctx.createGain();
+  const music = ctx.createGain();
+  effects.connect(master);
+  music.connect(master);
+  master.connect(ctx.destination);
+
+  let current = settings;
+  let theme = SOUND_THEMES[settings.theme];
+
+  const resume = () => {
+    if (ctx.state === 'suspended') ctx.resume();
+  };
+
+  const setSettings = (next: AudioSettings) => {
+    current = next;
+    theme = SOUND_THEMES[next.theme];
+    master.gain.setTargetAtTime(next.muted ? 0 : next.master, ctx.currentTime, 0.02);
+    effects.gain.setTargetAtTime(next.effects, ctx.currentTime, 0.02);
+    music.gain.setTargetAtTime(next.music, ctx.currentTime, 0.02);
+  };
+
+  const scheduleTone = (
+    bus: GainNode,
+    frequency: number,
+    start: number,
+    duration: number,
+    wave: OscillatorType,
+    gain: number,
+    attack: number = 0
+  ) => {
+    try {
+      const oscillator = ctx.createOscillator();
+      const gainNode = ctx.createGain();
+
+      oscillator.connect(gainNode);
+      gainNode.connect(bus);
+
+      oscillator.type = wave;
+      oscillator.frequency.value = frequency;
+
+      if (attack > 0) {
+        gainNode.gain.setValueAtTime(0.001, start);
+        gainNode.gain.exponentialRampToValueAtTime(gain, start + attack);
+      } else {
+        gainNode.gain.setValueAtTime(gain, start);
+      }
+      gainNode.gain.exponentialRampToValueAtTime(0.001, start + attack + duration);
+
+      oscillator.start(start);
+      oscillator.stop(start + attack + duration);
+    } catch (e) {
+      // Silently fail if audio doesn't work
+    }
+  };
+
+  const playTone = (frequency: number, duration: number, wave: OscillatorType = 'sine') => {
+    if (current.muted) return;
+    resume();
+    scheduleTone(
+      effects,
+      frequency * theme.pitch,
+      ctx.currentTime,
+      duration * theme.durationScale,
+      theme.wave ?? wave,
+      theme.gain,
+      theme.attack
+    );
+  };
+
+  const playNotes = (notes: readonly SoundNote[], pitch: number = 1) => {
+    notes.forEach(note => playTone(note.fixed ? note.frequency : note.frequency * pitch, note.duration, note.wave));
+  };
+
+  // Music is scheduled a little ahead on the audio clock from a timer, which
+  // keeps it steady even when frames are dropped.
+  const rng = createRng(randomSeed());
+  let musicTimer: ReturnType<typeof setInterval> | null = null;
+  let musicState: MusicState = { speed: MUSIC_REFERENCE_SPEED, bonus: false };
+  let nextNoteTime = 0;
+  let step = 0;
+  let melodyIndex = 0;
+
+  const scheduleStep = (time: number, stepLength: number) => {
+    const bar = Math.floor(step / 8) % PROGRESSION.length;
+    const beat = step % 8;
+    const transpose = musicState.bonus ? BONUS_TRANSPOSE : 0;
+    const root = semitones(MUSIC_ROOT, PROGRESSION[bar] + transpose);
+    const scale = musicState.bonus ? BONUS_SCALE : CALM_SCALE;
+
+    // Bass on the beat, root then fifth
+    if (beat % 2 === 0) {
+      scheduleTone(music, semitones(root / 2, beat === 4 ? 7 : 0), time, stepLength * 1.8, 'triangle', 0.25);
+    }
+
+    // Melody wanders the scale; bonus mode plays busier and brighter
+    if (rng() < (musicState.bonus ? 0.85 : 0.55)) {
+      melodyIndex = Math.max(0, Math.min(scale.length - 1, melodyIndex + Math.floor(rng() * 5) - 2));
+      const wave = musicState.bonus ? 'square' : 'sine';
+      scheduleTone(music, semitones(root * 2, scale[melodyIndex]), time, stepLength * 0.9, wave, musicState.bonus ? 0.06 : 0.12);
+    }
+
+    // Off-beat tick to carry the pulse
+    if (beat % 2 === 1) {
+      scheduleTone(music, 4000, time, 0.03, 'square', 0.02);
+    }
+  };
+
+  const scheduleMusic = () => {
+    // Bonus mode doubles up to sixteenth notes
+    const stepLength = 60 / getMusicTempo(musicState.speed) / (musicState.bonus ? 4 : 2);
+    while (nextNoteTime < ctx.currentTime + MUSIC_LOOKAHEAD) {
+      scheduleStep(nextNoteTime, stepLength);
+      nextNoteTime += stepLength;
+      step++;
+    }
+  };
+
+  const startMusic = () => {
+    if (musicTimer) return;
+    resume();
+    nextNoteTime = ctx.currentTime + 0.05;
+    step = 0;
+    musicTimer = setInterval(scheduleMusic, MUSIC_SCHEDULE_INTERVAL);
+  };
+
+  const stopMusic = () => {
+    if (!musicTimer) return;
+    clearInterval(musicTimer);
+    musicTimer = null;
+  };
+
+  const updateMusic = (state: MusicState) => {
+    musicState = state;
+  };
+
+  setSettings(settings);
+
+  return { playTone, playNotes, setSettings, startMusic, stopMusic, updateMusic };
+}
@@ -0,0 +1,206 @@
+import { BALLOON_PALETTES, type PaletteId } from './accessibility';
+import { THEMES, type ThemeId } from './themes';
+import type { Balloon, Difficulty, GameMode } from './types';
+
+// ============================================================================
+// BALLOON TYPE REGISTRY
+// ============================================================================
+//
+// Every balloon type is defined once here. The engine reads points, spawn
+// chances and pop effects; the renderer reads colors, icons and patterns; the page
+// reads sounds and menu instructions. Adding a type means adding an entry.
+
+export const BONUS_DURATION = 8000; // 8 seconds
+export const FREEZE_DURATION = 4000; // ms
+export const BLAST_RADIUS = 0.2; // fraction of the shorter canvas side
+export const SPLITTER_FRAGMENTS = 3;
+
+/** High-contrast overlay that tells types apart without relying on color. */
+export type BalloonPattern = 'none' | 'stripes' | 'dots' | 'grid' | 'rings' | 'diagonal' | 'zigzag' | 'checks';
+
+export interface SoundNote {
+  frequency: number;
+  duration: number;
+  wave: OscillatorType;
+  /** Notes marked fixed ignore the combo pitch shift. */
+  fixed?: boolean;
+}
+
+/** Engine hooks available to a balloon's on-pop effect. */
+export interface PopEffectContext {
+  readonly balloon: Readonly<Balloon>;
+  startBonus(duration: number): void;
+  startFreeze(duration: number): void;
+  raiseShield(): void;
+  /** Pops every non-hazard balloon within radius (fraction of the shorter canvas side). */
+  blast(radius: number): void;
+  split(fragments: number): void;
+  /** Bomb behaviour: consumes a shield, costs a life or ends the run depending on mode. */
+  detonate(): void;
+}
+
+export interface BalloonTypeDefinition {
+  /** Base points before bonus and combo multipliers; 0 for balloons that never score. */
+  points: number;
+  /** Probability of a spawn being this type; normal balloons fill whatever is left. */
+  spawnChance: Record<Difficulty, number>;
+  /** Hazards are never spawned in Zen, can't be blasted and don't cost lives when they escape. */
+  hazard?: boolean;
+  /** Body colors; balloons pick one by id. */
+  colors: string[];
+  icon: string | null;
+  pattern: BalloonPattern;
+  /** Optional custom icon drawing, centred on the balloon; replaces the emoji icon. */
+  drawIcon?: (ctx: CanvasRenderingContext2D, radius: number) => void;
+  sound: SoundNote[];
+  particleCount: number;
+  onPop?: (context: PopEffectContext) => void;
+  /** Menu line; a function when the effect differs between modes. */
+  instruction: string | ((mode: GameMode) => string);
+}
+
+export const BALLOON_TYPES = {
+  normal: {
+    points: 1,
+    spawnChance: { easy: 0, medium: 0, hard: 0 },
+    colors: ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#F7DC6F'],
+    icon: null,
+    pattern: 'none',
+    sound: [{ frequency: 523.25, duration: 0.1, wave: 'sine' }], // C5
+    particleCount: 15,
+    instruction: '🎈 Normal Balloon = +1 point',
+  },
+  bomb: {
+    points: 0,
+    spawnChance: { easy: 0.05, medium: 0.12, hard: 0.18 },
+    hazard: true,
+    colors: ['#2C3E50'],
+    icon: '💣',
+    pattern: 'checks',
+    sound: [{ frequency: 130.81, duration: 0.3, wave: 'sawtooth', fixed: true }], // C3
+    particleCount: 15,
+    onPop: context => context.detonate(),
+    instruction: mode => mode === 'survival'
+      ? '💣 Bomb = Lose a life (a shield absorbs it)'
+      : '💣 Bomb = Game Over! (a shield absorbs it)',
+  },
+  golden: {
+    points: 3,
+    spawnChance: { easy: 0.08, medium: 0.06, hard: 0.05 },
+    colors: ['#FFC107'],
+    icon: '✨',
+    pattern: 'dots',
+    sound: [
+      { frequency: 880, duration: 0.2, wave: 'square' }, // A5
+      { frequency: 1046.5, duration: 0.2, wave: 'square' }, // C6
+    ],
+    particleCount: 15,
+    onPop: context => context.startBonus(BONUS_DURATION),
+    instruction: '✨ Golden Balloon = Bonus Mode!',
+  },
+  star: {
+    points: 5,
+    spawnChance: { easy: 0.15, medium: 0.12, hard: 0.10 },
+    colors: ['#FFD700'],
+    icon: '⭐',
+    pattern: 'stripes',
+    sound: [
+      { frequency: 659.25, duration: 0.15, wave: 'triangle' }, // E5
+      { frequency: 783.99, duration: 0.15, wave: 'triangle' }, // G5
+    ],
+    particleCount: 20,
+    instruction: '⭐ Star Balloon = +5 points',
+  },
+  freeze: {
+    points: 2,
+    spawnChance: { easy: 0.04, medium: 0.035, hard: 0.03 },
+    colors: ['#74D0F1'],
+    icon: '❄️',
+    pattern: 'grid',
+    sound: [
+      { frequency: 1318.5, duration: 0.25, wave: 'sine' }, // E6
+      { frequency: 1568, duration: 0.25, wave: 'sine' }, // G6
+    ],
+    particleCount: 15,
+    onPop: context => context.startFreeze(FREEZE_DURATION),
+    instruction: '❄️ Freeze Balloon = Slows everything down',
+  },
+  blast: {
+    points: 2,
+    spawnChance: { easy: 0.03, medium: 0.03, hard: 0.025 },
+    colors: ['#E74C3C'],
+    icon: '💥',
+    pattern: 'zigzag',
+    sound: [
+      { frequency: 98, duration: 0.4, wave: 'sawtooth', fixed: true }, // G2
+      { frequency: 196, duration: 0.2, wave: 'square' }, // G3
+    ],
+    particleCount: 45,
+    onPop: context => context.blast(BLAST_RADIUS),
+    instruction: '💥 Blast Balloon = Pops nearby balloons',
+  },
+  shield: {
+    points: 2,
+    spawnChance: { easy: 0.03, medium: 0.025, hard: 0.02 },
+    colors: ['#8E44AD'],
+    icon: '🛡️',
+    pattern: 'rings',
+    sound: [
+      { frequency: 587.33, duration: 0.2, wave: 'triangle' }, // D5
+      { frequency: 880, duration: 0.2, wave: 'triangle' }, // A5
+    ],
+    particleCount: 15,
+    onPop: context => context.raiseShield(),
+    instruction: '🛡️ Shield Balloon = Absorbs your next bomb',
+  },
+  splitter: {
+    points: 2,
+    spawnChance: { easy: 0.05, medium: 0.05, hard: 0.05 },
+    colors: ['#2ECC71'],
+    icon: '🔱',
+    pattern: 'diagonal',
+    sound: [
+      { frequency: 440, duration: 0.08, wave: 'sine' }, // A4
+      { frequency: 659.25, duration: 0.12, wave: 'sine' }, // E5
+    ],
+    particleCount: 15,
+    onPop: context => context.split(SPLITTER_FRAGMENTS),
+    instruction: '🔱 Splitter Balloon = Bursts into small fast balloons',
+  },
+} satisfies Record<string, BalloonTypeDefinition>;
+
+export type BalloonType = keyof typeof BALLOON_TYPES;
+
+/** Registry order: also the order spawn chances are rolled and instructions listed. */
+export const BALLOON_TYPE_IDS = Object.keys(BALLOON_TYPES) as BalloonType[];
+
+export function getBalloonType(type: BalloonType): BalloonTypeDefinition {
+  return BALLOON_TYPES[type];
+}
+
+/** Menu line for a type in the given mode; null for hazards, which never spawn in Zen. */
+export function getBalloonInstruction(type: BalloonType, mode: GameMode): string | null {
+  const definition = getBalloonType(type);
+  if (definition.hazard && mode === 'zen') return null;
+  return typeof definition.instruction === 'function' ? definition.instruction(mode) : definition.instruction;
+}
+
+/** Color-blind palettes take precedence over the theme's balloon colors. */
+export function getBalloonColor(
+  balloon: Readonly<Balloon>,
+  palette: PaletteId = 'standard',
+  theme: ThemeId = 'sky'
+): string {
+  const themeColors = balloon.type === 'normal' ? THEMES[theme].balloonColors : undefined;
+  const colors = BALLOON_PALETTES[palette].colors[balloon.type] ?? themeColors ?? getBalloonType(balloon.type).colors;
+  return colors[Math.abs(balloon.id) % colors.length];
+}
+
+export function getDefaultSpawnChances(difficulty: Difficulty): Partial<Record<BalloonType, number>> {
+  const chances: Partial<Record<BalloonType, number>> = {};
+  BALLOON_TYPE_IDS.forEach(type => {
+    const chance = getBalloonType(type).spawnChance[difficulty];
+    if (chance > 0) chances[type] = chance;
+  });
+  return chances;
+}
@@ -0,0 +1,78 @@
+import { getDefaultSpawnChances } from './balloonTypes';
+import type { Difficulty, DifficultyConfig } from './types';
+
+// ============================================================================
+// GAME CONFIGURATION
+// ============================================================================
+
+// Speeds are in world units per second and ramp by speedIncreaseRate (units/s)
+// every elapsed second; intervals are in milliseconds of simulated time.
+export const DIFFICULTY_CONFIGS: Record<Difficulty, DifficultyConfig> = {
+  easy: {
+    baseSpeed: 72,
+    spawnInterval: 1800,
+    spawnChances: getDefaultSpawnChances('easy'),
+    speedIncreaseRate: 0.03,
+    spawnDecreaseRate: 0.98,
+    physics: 0.5,
+  },
+  medium: {
+    baseSpeed: 108,
+    spawnInterval: 1400,
+    spawnChances: getDefaultSpawnChances('medium'),
+    speedIncreaseRate: 0.06,
+    spawnDecreaseRate: 0.97,
+    physics: 1,
+  },
+  hard: {
+    baseSpeed: 150,
+    spawnInterval: 1000,
+    spawnChances: getDefaultSpawnChances('hard'),
+    speedIncreaseRate: 0.09,
+    spawnDecreaseRate: 0.96,
+    physics: 1.5,
+  },
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const BONUS_MULTIPLIER = 2;
+
+// Special balloon mechanics (durations and sizes live in the balloon type registry)
+export const FREEZE_SLOWDOWN = 0.35; // balloon speed factor while frozen
+export const SPLITTER_FRAGMENT_SCALE = 0.6; // fragment radius relative to the splitter
+export const SPLITTER_FRAGMENT_SPEED = 1.6; // fragment speed relative to current speed
+
+// Combo scoring: pops within COMBO_WINDOW of each other build a combo, and
+// every COMBO_STEP pops add one to the score multiplier.
+export const COMBO_WINDOW = 1500; // ms
+export const COMBO_STEP = 5;
+export const COMBO_MAX_MULTIPLIER = 5;
+
+// Extra reach for taps that just miss, as a fraction of the balloon radius
+export const MAX_HIT_TOLERANCE = 0.5;
+
+// Upper bound on the pop particle multiplier
+export const MAX_PARTICLE_SCALE = 10;
+
+export const MIN_SPAWN_INTERVAL = 300;
+export const POP_FADE_DURATION = 300;
+
+// Physics constants (per second)
+export const BALLOON_DRIFT_SPEED = 48; // full range of horizontal drift, units/s
+export const BALLOON_SPIN_SPEED = 3; // full range of spin, rad/s
+export const PARTICLE_MIN_SPEED = 120;
+export const PARTICLE_SPEED_RANGE = 180;
+export const PARTICLE_GRAVITY = 540; // units/s²
+export const POPUP_DURATION = 0.8; // s
+
+// Balloon physics; wobble and wind scale with the difficulty's physics setting
+export const WOBBLE_SPEED = 20; // peak sideways sway, units/s
+export const WOBBLE_FREQUENCY = 0.4; // sways per second
+export const BUOYANCY_BOB = 0.15; // rise speed swings by this fraction
+export const WIND_MAX_SPEED = 90; // strongest gust at physics 1, units/s
+export const WIND_GUST_INTERVAL = 9000; // average ms between gusts
+export const WIND_GUST_DURATION = 3000; // ms
+export const WIND_RESPONSE = 1.5; // how fast the wind eases toward a gust, per second
+export const COLLISION_PUSH = 0.5; // share of an overlap pushed apart each step
+export const POPUP_RISE_SPEED = 90; // units/s
@@ -0,0 +1,184 @@
+import type { Balloon } from './types';
+
+// ============================================================================
+// KEYBOARD & GAMEPAD CONTROLS
+// ============================================================================
+
+const CONTROLS_STORAGE_KEY = 'balloonControls';
+
+export const CROSSHAIR_SPEED = 0.9; // fraction of the shorter field side per second
+export const AIM_ASSIST_RADIUS = 0.08; // fraction of the shorter field side
+export const STICK_DEADZONE = 0.25;
+
+/** Virtual cursor in world units; only drawn once keyboard or gamepad aiming is used. */
+export interface Crosshair {
+  x: number;
+  y: number;
+  active: boolean;
+}
+
+export interface ControlSettings {
+  aimAssist: boolean;
+  /** Extra hit radius for taps, as a fraction of the balloon radius. */
+  hitTolerance: number;
+}
+
+export const HIT_TOLERANCE_OPTIONS = [
+  { label: 'Exact', value: 0 },
+  { label: 'Relaxed', value: 0.2 },
+  { label: 'Generous', value: 0.4 },
+];
+
+const DEFAULT_CONTROL_SETTINGS: ControlSettings = { aimAssist: false, hitTolerance: 0 };
+
+export function loadControlSettings(): ControlSettings {
+  try {
+    const saved = localStorage.getItem(CONTROLS_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_CONTROL_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return { ...DEFAULT_CONTROL_SETTINGS };
+}
+
+export function saveControlSettings(settings: ControlSettings) {
+  try {
+    localStorage.setItem(CONTROLS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+// ============================================================================
+// CROSSHAIR
+// ============================================================================
+
+const DIRECTION_KEYS: Record<string, [number, number]> = {
+  arrowup: [0, -1],
+  arrowdown: [0, 1],
+  arrowleft: [-1, 0],
+  arrowright: [1, 0],
+  w: [0, -1],
+  s: [0, 1],
+  a: [-1, 0],
+  d: [1, 0],
+};
+
+export const POP_KEYS = [' ', 'enter'];
+
+export function isDirectionKey(key: string): boolean {
+  return key.toLowerCase() in DIRECTION_KEYS;
+}
+
+/** Combined direction of the held keys (optionally only some of them), each axis in [-1, 1]. */
+export function getKeyboardDirection(heldKeys: ReadonlySet<string>, only?: readonly string[]): [number, number] {
+  let dx = 0;
+  let dy = 0;
+  heldKeys.forEach(key => {
+    const direction = DIRECTION_KEYS[key];
+    if (!direction || (only && !only.includes(key))) return;
+    dx += direction[0];
+    dy += direction[1];
+  });
+  return [Math.max(-1, Math.min(1, dx)), Math.max(-1, Math.min(1, dy))];
+}
+
+export function centerCrosshair(crosshair: Crosshair, width: number, height: number) {
+  crosshair.x = width / 2;
+  crosshair.y = height / 2;
+}
+
+export function moveCrosshair(
+  crosshair: Crosshair,
+  dx: number,
+  dy: number,
+  seconds: number,
+  width: number,
+  height: number
+) {
+  const speed = Math.min(width, height) * CROSSHAIR_SPEED;
+  crosshair.x = Math.max(0, Math.min(width, crosshair.x + dx * speed * seconds));
+  crosshair.y = Math.max(0, Math.min(height, crosshair.y + dy * speed * seconds));
+}
+
+/** Nearest unpopped balloon whose edge is within `radius` of the point. */
+export function findAimTarget(
+  balloons: readonly Readonly<Balloon>[],
+  x: number,
+  y: number,
+  radius: number
+): Readonly<Balloon> | null {
+  let best: Readonly<Balloon> | null = null;
+  let bestDistance = Infinity;
+  for (const balloon of balloons) {
+    if (balloon.popped) continue;
+    const distance = Math.sqrt((balloon.x - x) ** 2 + (balloon.y - y) ** 2) - balloon.radius;
+    if (distance <= radius && distance < bestDistance) {
+      best = balloon;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// GAMEPAD
+// ============================================================================
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const GAMEPAD_BUTTONS = {
+  confirm: 0,
+  back: 1,
+  pause: 9,
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+} as const;
+
+export type GamepadButton = keyof typeof GAMEPAD_BUTTONS;
+
+export interface GamepadState {
+  /** Left stick (falling back to the d-pad), each axis in [-1, 1]. */
+  x: number;
+  y: number;
+  pressed: ReadonlySet<GamepadButton>;
+  /** Buttons that went down since the previous poll. */
+  justPressed: ReadonlySet<GamepadButton>;
+}
+
+export interface GamepadReader {
+  /** Reads the first connected gamepad; null when none is connected. */
+  poll(): GamepadState | null;
+}
+
+export function createGamepadReader(): GamepadReader {
+  let previous = new Set<GamepadButton>();
+
+  const poll = (): GamepadState | null => {
+    const gamepad = typeof navigator !== 'undefined' && navigator.getGamepads
+      ? Array.from(navigator.getGamepads()).find(pad => pad?.connected)
+      : null;
+    if (!gamepad) {
+      previous = new Set();
+      return null;
+    }
+
+    const pressed = new Set<GamepadButton>();
+    (Object.keys(GAMEPAD_BUTTONS) as GamepadButton[]).forEach(button => {
+      if (gamepad.buttons[GAMEPAD_BUTTONS[button]]?.pressed) pressed.add(button);
+    });
+    const justPressed = new Set([...pressed].filter(button => !previous.has(button)));
+    previous = pressed;
+
+    const deadzone = (value: number) => (Math.abs(value) < STICK_DEADZONE ? 0 : value);
+    let x = deadzone(gamepad.axes[0] ?? 0);
+    let y = deadzone(gamepad.axes[1] ?? 0);
+    if (x === 0) x = (pressed.has('right') ? 1 : 0) - (pressed.has('left') ? 1 : 0);
+    if (y === 0) y = (pressed.has('down') ? 1 : 0) - (pressed.has('up') ? 1 : 0);
+
+    return { x, y, pressed, justPressed };
+  };
+
+  return { poll };
+}
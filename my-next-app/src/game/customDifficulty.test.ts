@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  CONFIG_FIELDS,
+  createCustomConfig,
+  decodeDifficultyConfig,
+  encodeDifficultyConfig,
+  isValidDifficultyConfig,
+} from './customDifficulty';
+import type { DifficultyConfig } from './types';
+
+describe('share links', () => {
+  test('a config survives the round trip', () => {
+    const config = {
+      ...createCustomConfig('hard'),
+      baseSpeed: 321,
+      physics: 1.5,
+      spawnChances: { bomb: 0.25, star: 0.5 },
+    };
+
+    assert.deepEqual(decodeDifficultyConfig(encodeDifficultyConfig(config)), config);
+    assert.deepEqual(decodeDifficultyConfig(new URLSearchParams(encodeDifficultyConfig(config))), config);
+  });
+
+  test('links without the custom flag are ignored', () => {
+    const query = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    query.delete('custom');
+    assert.equal(decodeDifficultyConfig(query), null);
+    assert.equal(decodeDifficultyConfig(''), null);
+  });
+
+  test('out-of-range values are rejected', () => {
+    const query = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    query.set(CONFIG_FIELDS.baseSpeed.param, String(CONFIG_FIELDS.baseSpeed.max + 1));
+    assert.equal(decodeDifficultyConfig(query), null);
+
+    const chances = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    chances.set('bomb', '0.6');
+    chances.set('star', '0.6');
+    assert.equal(decodeDifficultyConfig(chances), null);
+  });
+
+  test('malformed links are rejected', () => {
+    const missing = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    missing.delete(CONFIG_FIELDS.spawnInterval.param);
+    assert.equal(decodeDifficultyConfig(missing), null);
+
+    const blank = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    blank.set(CONFIG_FIELDS.baseSpeed.param, ' ');
+    assert.equal(decodeDifficultyConfig(blank), null);
+
+    const garbage = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    garbage.set('golden', 'lots');
+    assert.equal(decodeDifficultyConfig(garbage), null);
+  });
+
+  test('links shared before physics existed play with the default', () => {
+    const query = new URLSearchParams(encodeDifficultyConfig(createCustomConfig()));
+    query.delete(CONFIG_FIELDS.physics.param);
+    assert.equal(decodeDifficultyConfig(query)?.physics, createCustomConfig().physics);
+  });
+});
+
+describe('isValidDifficultyConfig', () => {
+  test('accepts the presets', () => {
+    assert.ok(isValidDifficultyConfig(createCustomConfig('easy')));
+    assert.ok(isValidDifficultyConfig(createCustomConfig('hard')));
+  });
+
+  test('rejects incomplete, unknown or out-of-range configs', () => {
+    const withoutPhysics: Partial<DifficultyConfig> = createCustomConfig();
+    delete withoutPhysics.physics;
+    assert.equal(isValidDifficultyConfig(withoutPhysics), false);
+    assert.equal(isValidDifficultyConfig({ ...createCustomConfig(), spawnChances: { normal: 0.5 } }), false);
+    assert.equal(isValidDifficultyConfig({ ...createCustomConfig(), spawnChances: { bomb: -0.1 } }), false);
+    assert.equal(isValidDifficultyConfig({ ...createCustomConfig(), spawnInterval: '800' }), false);
+    assert.equal(isValidDifficultyConfig({ ...createCustomConfig(), spawnInterval: Infinity }), false);
+    assert.equal(isValidDifficultyConfig({ ...createCustomConfig(), spawnChances: null }), false);
+    assert.equal(isValidDifficultyConfig(null), false);
+    assert.equal(isValidDifficultyConfig('custom=1'), false);
+  });
+});
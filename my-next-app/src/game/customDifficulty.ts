@@ -0,0 +1,178 @@
+import { BALLOON_TYPE_IDS, type BalloonType } from './balloonTypes';
+import { DIFFICULTY_CONFIGS, MIN_SPAWN_INTERVAL } from './config';
+import { addTimeLimitToKey } from './modes';
+import type { Difficulty, DifficultyConfig, GameMode } from './types';
+
+// ============================================================================
+// CUSTOM DIFFICULTY
+// ============================================================================
+
+const PRESETS_STORAGE_KEY = 'balloonCustomPresets';
+export const MAX_PRESETS = 20;
+export const MAX_PRESET_NAME_LENGTH = 24;
+
+// Custom runs are recorded under this difficulty; their rules come from the config
+export const CUSTOM_BASE_DIFFICULTY: Difficulty = 'medium';
+
+type NumericField = Exclude<keyof DifficultyConfig, 'spawnChances'>;
+
+export interface FieldLimits {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Query string parameter used in share links. */
+  param: string;
+}
+
+export const CONFIG_FIELDS: Record<NumericField, FieldLimits> = {
+  baseSpeed: { label: 'Base speed (units/s)', min: 20, max: 600, step: 1, param: 'speed' },
+  spawnInterval: { label: 'Spawn interval (ms)', min: MIN_SPAWN_INTERVAL, max: 5000, step: 10, param: 'interval' },
+  speedIncreaseRate: { label: 'Speed ramp (units/s per second)', min: 0, max: 2, step: 0.01, param: 'speedRamp' },
+  spawnDecreaseRate: { label: 'Spawn ramp (per 10 s)', min: 0.5, max: 1, step: 0.01, param: 'spawnRamp' },
+  physics: { label: 'Wind & wobble', min: 0, max: 2, step: 0.1, param: 'physics' },
+};
+
+export const CONFIG_FIELD_KEYS = Object.keys(CONFIG_FIELDS) as NumericField[];
+
+/** Types whose spawn chance can be set; normal balloons fill whatever is left. */
+export const CONFIGURABLE_TYPES: BalloonType[] = BALLOON_TYPE_IDS.filter(type => type !== 'normal');
+
+export function createCustomConfig(base: Difficulty = CUSTOM_BASE_DIFFICULTY): DifficultyConfig {
+  const preset = DIFFICULTY_CONFIGS[base];
+  return { ...preset, spawnChances: { ...preset.spawnChances } };
+}
+
+export function getTotalSpawnChance(config: DifficultyConfig): number {
+  return CONFIGURABLE_TYPES.reduce((sum, type) => sum + (config.spawnChances[type] ?? 0), 0);
+}
+
+/** Every problem with the config, worded for the editor; empty when it's valid. */
+export function validateDifficultyConfig(config: DifficultyConfig): string[] {
+  const errors: string[] = [];
+
+  CONFIG_FIELD_KEYS.forEach(field => {
+    const { label, min, max } = CONFIG_FIELDS[field];
+    const value = config[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${label} must be a number`);
+    } else if (value < min || value > max) {
+      errors.push(`${label} must be between ${min} and ${max}`);
+    }
+  });
+
+  CONFIGURABLE_TYPES.forEach(type => {
+    const chance = config.spawnChances[type] ?? 0;
+    if (typeof chance !== 'number' || !Number.isFinite(chance) || chance < 0 || chance > 1) {
+      errors.push(`The ${type} spawn chance must be between 0 and 1`);
+    }
+  });
+
+  // A little slack so chances typed as percentages can add up to exactly 100%
+  if (getTotalSpawnChance(config) > 1 + 1e-9) {
+    errors.push('Spawn chances must add up to 100% or less');
+  }
+
+  return errors;
+}
+
+/** Key under which a mode and custom ruleset keeps its own high scores. */
+export function getCustomScoreKey(mode: GameMode, config: DifficultyConfig, timeLimit: number): string {
+  return addTimeLimitToKey(`${mode}:custom:${hashConfig(config)}`, mode, timeLimit);
+}
+
+// FNV-1a over the share link parameters, so equal rules share a board
+function hashConfig(config: DifficultyConfig): string {
+  let hash = 0x811c9dc5;
+  for (const char of encodeDifficultyConfig(config)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+/** Query string (without the leading "?") describing the config. */
+export function encodeDifficultyConfig(config: DifficultyConfig): string {
+  const params = new URLSearchParams({ custom: '1' });
+  CONFIG_FIELD_KEYS.forEach(field => params.set(CONFIG_FIELDS[field].param, String(config[field])));
+  CONFIGURABLE_TYPES.forEach(type => params.set(type, String(config.spawnChances[type] ?? 0)));
+  return params.toString();
+}
+
+/** Reads a config from a share link's query string; null when absent or invalid. */
+export function decodeDifficultyConfig(query: string | URLSearchParams): DifficultyConfig | null {
+  const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+  if (params.get('custom') !== '1') return null;
+
+  // Links shared before physics existed play with the default
+  const config = createCustomConfig();
+  for (const field of CONFIG_FIELD_KEYS) {
+    const value = params.get(CONFIG_FIELDS[field].param);
+    if (value === null && field === 'physics') continue;
+    if (value === null || value.trim() === '') return null;
+    config[field] = Number(value);
+  }
+
+  const spawnChances: Partial<Record<BalloonType, number>> = {};
+  CONFIGURABLE_TYPES.forEach(type => {
+    const chance = Number(params.get(type) ?? 0);
+    if (chance !== 0) spawnChances[type] = chance;
+  });
+  config.spawnChances = spawnChances;
+
+  return validateDifficultyConfig(config).length === 0 ? config : null;
+}
+
+/** Checks untrusted data (share links, replay files) is a complete, valid config. */
+export function isValidDifficultyConfig(data: any): data is DifficultyConfig {
+  if (!data || typeof data !== 'object' || !data.spawnChances || typeof data.spawnChances !== 'object') return false;
+  if (Object.keys(data.spawnChances).some(type => !CONFIGURABLE_TYPES.includes(type as BalloonType))) return false;
+  return validateDifficultyConfig(data).length === 0;
+}
+
+// ============================================================================
+// SAVED PRESETS
+// ============================================================================
+
+export interface CustomPreset {
+  name: string;
+  config: DifficultyConfig;
+}
+
+export function loadCustomPresets(): CustomPreset[] {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        // Presets saved before physics existed get the default
+        return parsed
+          .map(preset =>
+            preset?.config ? { ...preset, config: { physics: createCustomConfig().physics, ...preset.config } } : preset
+          )
+          .filter(preset => typeof preset?.name === 'string' && isValidDifficultyConfig(preset.config));
+      }
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return [];
+}
+
+export function saveCustomPresets(presets: CustomPreset[]) {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+/** Adds a preset, replacing one with the same name; the newest comes first. */
+export function upsertCustomPreset(presets: CustomPreset[], preset: CustomPreset): CustomPreset[] {
+  const name = preset.name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+  const others = presets.filter(existing => existing.name !== name);
+  return [{ name, config: preset.config }, ...others].slice(0, MAX_PRESETS);
+}
@@ -0,0 +1,132 @@
+import type { Difficulty } from './types';
+import { LANDSCAPE_WORLD, type WorldSize } from './world';
+
+// ============================================================================
+// DAILY CHALLENGE
+// ============================================================================
+
+// Everyone plays the same rules, seed and field on a given UTC day.
+export const DAILY_DIFFICULTY: Difficulty = 'medium';
+// Portrait screens play it letterboxed rather than on a different world
+export const DAILY_WORLD: WorldSize = LANDSCAPE_WORLD;
+const DAILY_STORAGE_KEY = 'balloonDailyChallenge';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyResult {
+  date: string;
+  /** Score of the official attempt; null until it has been started. */
+  score: number | null;
+  practiceBest: number;
+  practiceRuns: number;
+}
+
+export interface DailyHistory {
+  version: 1;
+  results: Record<string, DailyResult>;
+}
+
+/** YYYY-MM-DD of the UTC day containing `now`. */
+export function getDailyKey(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/** FNV-1a hash of the date key, so the seed is stable and identical for everyone. */
+export function getDailySeed(dateKey: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dateKey.length; i++) {
+    hash ^= dateKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function msUntilNextDaily(now: number = Date.now()): number {
+  return DAY_MS - (now % DAY_MS);
+}
+
+// ============================================================================
+// HISTORY & STREAKS
+// ============================================================================
+
+export function createEmptyDailyHistory(): DailyHistory {
+  return { version: 1, results: {} };
+}
+
+export function loadDailyHistory(): DailyHistory {
+  try {
+    const saved = localStorage.getItem(DAILY_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed?.version === 1 && parsed.results) return parsed;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return createEmptyDailyHistory();
+}
+
+export function saveDailyHistory(history: DailyHistory) {
+  try {
+    localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(history));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+export function hasPlayedOfficial(history: DailyHistory, dateKey: string): boolean {
+  return history.results[dateKey]?.score != null;
+}
+
+/** Returns a new history with the attempt recorded; official attempts only count once. */
+export function recordDailyResult(
+  history: DailyHistory,
+  dateKey: string,
+  score: number,
+  official: boolean
+): DailyHistory {
+  const previous = history.results[dateKey] ?? { date: dateKey, score: null, practiceBest: 0, practiceRuns: 0 };
+  const result: DailyResult = official
+    ? { ...previous, score: Math.max(previous.score ?? 0, score) }
+    : { ...previous, practiceBest: Math.max(previous.practiceBest, score), practiceRuns: previous.practiceRuns + 1 };
+
+  return { ...history, results: { ...history.results, [dateKey]: result } };
+}
+
+/** Most recent first. */
+export function getDailyResults(history: DailyHistory): DailyResult[] {
+  return Object.values(history.results).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * The current streak counts consecutive days with an official attempt, ending
+ * today — or yesterday, so a streak isn't shown as broken before today is played.
+ */
+export function getDailyStreaks(history: DailyHistory, now: number = Date.now()) {
+  const played = new Set(
+    Object.values(history.results)
+      .filter(result => result.score !== null)
+      .map(result => result.date)
+  );
+
+  let current = 0;
+  let day = now;
+  if (!played.has(getDailyKey(day))) day -= DAY_MS;
+  while (played.has(getDailyKey(day))) {
+    current++;
+    day -= DAY_MS;
+  }
+
+  let best = 0;
+  let run = 0;
+  let previousDay: number | null = null;
+  Array.from(played)
+    .sort()
+    .forEach(dateKey => {
+      const time = Date.parse(`${dateKey}T00:00:00Z`);
+      run = previousDay !== null && time - previousDay === DAY_MS ? run + 1 : 1;
+      best = Math.max(best, run);
+      previousDay = time;
+    });
+
+  return { current, best };
+}
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getBalloonType } from './balloonTypes';
+import { BONUS_MULTIPLIER, DIFFICULTY_CONFIGS } from './config';
+import { createGameEngine, getComboMultiplier, type GameEngine, type GameEvent } from './engine';
+import { FIXED_TIMESTEP } from './loop';
+import type { BalloonType } from './types';
+import { LANDSCAPE_WORLD } from './world';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SEED = 12345;
+
+// Every spawn is the given type, with wind and wobble off so balloons rise straight up
+function createTestEngine(type: BalloonType) {
+  const engine = createGameEngine({
+    difficulty: 'medium',
+    ...LANDSCAPE_WORLD,
+    seed: SEED,
+    config: {
+      ...DIFFICULTY_CONFIGS.medium,
+      spawnChances: type === 'normal' ? {} : { [type]: 1 },
+      physics: 0,
+    },
+  });
+  const events: GameEvent[] = [];
+  engine.subscribe(event => events.push(event));
+  return { engine, events };
+}
+
+// Steps until an unpopped balloon is fully on screen and taps its centre
+function popNextBalloon(engine: GameEngine) {
+  for (let i = 0; i < 10000; i++) {
+    const state = engine.getState();
+    const balloon = state.balloons.find(candidate => !candidate.popped && candidate.y < state.height - candidate.radius);
+    if (balloon) {
+      engine.pointerDown(balloon.x, balloon.y);
+      return balloon.id;
+    }
+    engine.step(FIXED_TIMESTEP);
+  }
+  throw new Error('No balloon reached the field');
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+describe('createGameEngine', () => {
+  test('scores a popped balloon and reports it', () => {
+    const { engine, events } = createTestEngine('normal');
+
+    popNextBalloon(engine);
+
+    const state = engine.getState();
+    assert.equal(state.score, getBalloonType('normal').points);
+    assert.equal(state.hits, 1);
+    assert.equal(state.combo, 1);
+    assert.deepEqual(
+      events.filter(event => event.type === 'score'),
+      [{ type: 'score', score: state.score }]
+    );
+  });
+
+  test('runs are reproducible from the seed', () => {
+    const first = createTestEngine('normal').engine;
+    const second = createTestEngine('normal').engine;
+    for (let i = 0; i < 600; i++) {
+      first.step(FIXED_TIMESTEP);
+      second.step(FIXED_TIMESTEP);
+    }
+    assert.deepEqual(
+      first.getState().balloons.map(balloon => [balloon.id, balloon.x, balloon.y]),
+      second.getState().balloons.map(balloon => [balloon.id, balloon.x, balloon.y])
+    );
+  });
+
+  test('golden balloons start a bonus that multiplies points until it ends', () => {
+    const { engine, events } = createTestEngine('golden');
+    const golden = getBalloonType('golden').points;
+
+    popNextBalloon(engine);
+    const poppedAt = engine.getState().now;
+    const bonusStart = events.find(event => event.type === 'bonusStart');
+    assert.ok(bonusStart && bonusStart.type === 'bonusStart');
+    assert.ok(bonusStart.endTime > poppedAt);
+    assert.equal(engine.getState().score, golden);
+
+    popNextBalloon(engine);
+    assert.ok(engine.getState().now < bonusStart.endTime);
+    assert.equal(engine.getState().score, golden + golden * BONUS_MULTIPLIER * getComboMultiplier(2));
+
+    // The second golden pop extends the bonus; it ends exactly once, on schedule
+    const endTime = engine.getState().bonusEndTime;
+    while (engine.getState().now < endTime + FIXED_TIMESTEP && engine.getState().status === 'playing') {
+      engine.step(FIXED_TIMESTEP);
+    }
+    assert.equal(events.filter(event => event.type === 'bonusEnd').length, 1);
+  });
+
+  test('event payloads stay intact after the balloon is recycled', () => {
+    const { engine, events } = createTestEngine('normal');
+
+    const id = popNextBalloon(engine);
+    const pop = events.find(event => event.type === 'pop');
+    assert.ok(pop && pop.type === 'pop');
+    const reported = { ...pop.balloon };
+    assert.equal(reported.id, id);
+
+    // Popped balloons fade, leave the field and go back to the pool for new spawns
+    for (let i = 0; i < 1200; i++) engine.step(FIXED_TIMESTEP);
+    assert.ok(engine.getState().balloons.every(balloon => balloon.id !== id));
+    assert.deepEqual(pop.balloon, reported);
+  });
+
+  test('claims settled before the balloon spawns apply when it does', () => {
+    const engine = createGameEngine({ difficulty: 'medium', ...LANDSCAPE_WORLD, seed: SEED, claimPops: true });
+    engine.resolveClaim(0, false);
+
+    while (engine.getState().balloons.length === 0) engine.step(FIXED_TIMESTEP);
+    const balloon = engine.getState().balloons[0];
+    assert.equal(balloon.id, 0);
+    assert.ok(balloon.popped);
+    assert.equal(engine.getState().score, 0);
+  });
+
+  test('popping a bomb ends a classic run', () => {
+    const { engine, events } = createTestEngine('bomb');
+
+    popNextBalloon(engine);
+
+    assert.equal(engine.getState().status, 'over');
+    assert.equal(engine.getState().score, 0);
+    assert.deepEqual(events.at(-1), { type: 'gameover', score: 0, cause: 'bomb' });
+
+    // Nothing moves once the run is over
+    const tick = engine.getState().tick;
+    engine.step(FIXED_TIMESTEP);
+    assert.equal(engine.getState().tick, tick);
+  });
+});
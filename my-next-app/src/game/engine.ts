@@ -0,0 +1,819 @@
+import type { PaletteId } from './accessibility';
+import { BALLOON_TYPE_IDS, getBalloonColor, getBalloonType, type PopEffectContext } from './balloonTypes';
+import {
+  BALLOON_DRIFT_SPEED,
+  BALLOON_SPIN_SPEED,
+  BONUS_MULTIPLIER,
+  BUOYANCY_BOB,
+  COLLISION_PUSH,
+  COMBO_MAX_MULTIPLIER,
+  COMBO_STEP,
+  COMBO_WINDOW,
+  DIFFICULTY_CONFIGS,
+  FREEZE_SLOWDOWN,
+  MAX_HIT_TOLERANCE,
+  MAX_PARTICLE_SCALE,
+  MIN_SPAWN_INTERVAL,
+  PARTICLE_GRAVITY,
+  PARTICLE_MIN_SPEED,
+  PARTICLE_SPEED_RANGE,
+  POP_FADE_DURATION,
+  POPUP_DURATION,
+  POPUP_RISE_SPEED,
+  SPLITTER_FRAGMENT_SCALE,
+  SPLITTER_FRAGMENT_SPEED,
+  WIND_GUST_DURATION,
+  WIND_GUST_INTERVAL,
+  WIND_MAX_SPEED,
+  WIND_RESPONSE,
+  WOBBLE_FREQUENCY,
+  WOBBLE_SPEED,
+} from './config';
+import { DEFAULT_TIME_LIMIT, SURVIVAL_LIVES } from './modes';
+import { compactInPlace, createPool } from './pool';
+import { createRng, deriveSeed, randomSeed } from './rng';
+import type { ThemeId } from './themes';
+import type { Balloon, BalloonType, Difficulty, DifficultyConfig, GameMode, Particle, ScorePopup } from './types';
+
+// ============================================================================
+// ENGINE TYPES
+// ============================================================================
+
+export type GameStatus = 'playing' | 'over';
+export type GameOverCause = 'bomb' | 'time' | 'lives' | 'quit';
+export type ComboBreakReason = 'miss' | 'escape' | 'bomb' | 'timeout';
+
+/**
+ * What events say about a balloon. A copy, since the engine recycles balloon
+ * objects once they leave the field.
+ */
+export interface BalloonInfo {
+  id: number;
+  type: BalloonType;
+  x: number;
+  y: number;
+  color: string;
+}
+
+export type GameEvent =
+  | { type: 'pop'; balloon: BalloonInfo; points: number; combo: number }
+  | { type: 'miss'; x: number; y: number }
+  | { type: 'escape'; balloon: BalloonInfo }
+  | { type: 'comboBreak'; combo: number; reason: ComboBreakReason }
+  | { type: 'score'; score: number }
+  | { type: 'lifeLost'; lives: number }
+  | { type: 'bonusStart'; endTime: number }
+  | { type: 'bonusEnd' }
+  | { type: 'freezeStart'; endTime: number }
+  | { type: 'blast'; x: number; y: number; radius: number; popped: number }
+  | { type: 'shieldUp' }
+  | { type: 'shieldUsed' }
+  | { type: 'bombPenalty'; points: number }
+  | { type: 'claim'; balloon: BalloonInfo }
+  | { type: 'gust'; wind: number }
+  | { type: 'gameover'; score: number; cause: GameOverCause };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/** Everything fed into the engine from outside, stamped with the step it arrived on. */
+export type GameInput =
+  | { tick: number; type: 'pointer'; x: number; y: number }
+  | { tick: number; type: 'end' };
+
+export interface GameEngineOptions {
+  difficulty: Difficulty;
+  width: number;
+  height: number;
+  seed?: number;
+  mode?: GameMode;
+  /** Round length in seconds; only used by Time Attack. */
+  timeLimit?: number;
+  /** Extra hit radius as a fraction of each balloon's radius, up to MAX_HIT_TOLERANCE. */
+  hitTolerance?: number;
+  /** Custom rules used instead of the difficulty's preset. */
+  config?: DifficultyConfig | null;
+  /** Points a bomb costs instead of ending the run (versus); 0 keeps the mode's rules. */
+  bombPenalty?: number;
+  /**
+   * Online play: popping a spawned balloon only emits a claim, and the pop
+   * happens once resolveClaim() reports who got there first.
+   */
+  claimPops?: boolean;
+  /** Cosmetic only: colors used for particles and score popups. */
+  palette?: PaletteId;
+  /** Cosmetic only: the theme's normal balloon colors, for particles. */
+  theme?: ThemeId;
+  /**
+   * Cosmetic only: multiplier on pop particles spawned. Reduced motion uses
+   * less than 1; the stress test raises it.
+   */
+  particleScale?: number;
+}
+
+/**
+ * Read-only view of the simulation handed to renderers and tests. Times are in
+ * milliseconds of simulated time, which only advances through step().
+ */
+export interface GameSnapshot {
+  readonly status: GameStatus;
+  readonly difficulty: Difficulty;
+  /** Whether the run uses custom rules rather than the difficulty's preset. */
+  readonly custom: boolean;
+  readonly mode: GameMode;
+  readonly seed: number;
+  readonly tick: number;
+  readonly now: number;
+  readonly elapsed: number;
+  readonly score: number;
+  readonly lives: number;
+  /** Milliseconds left in a Time Attack round, null in other modes. */
+  readonly timeLeft: number | null;
+  readonly bonusEndTime: number;
+  readonly freezeEndTime: number;
+  readonly shieldActive: boolean;
+  readonly combo: number;
+  readonly comboMultiplier: number;
+  /** Simulated time at which the current combo lapses without another pop. */
+  readonly comboExpiresAt: number;
+  readonly maxCombo: number;
+  /** Balloons popped this run, including bombs and blast chains. */
+  readonly popped: number;
+  /** Most scoring pops landed during a single bonus period. */
+  readonly maxBonusStreak: number;
+  readonly popsByType: Readonly<Partial<Record<BalloonType, number>>>;
+  /** Pointer presses, and how many of them popped a balloon. */
+  readonly clicks: number;
+  readonly hits: number;
+  /** Milliseconds spent with the bonus multiplier active. */
+  readonly bonusTime: number;
+  readonly currentSpeed: number;
+  readonly currentSpawnInterval: number;
+  /** Sideways push on every balloon, units/s; positive blows to the right. */
+  readonly wind: number;
+  readonly width: number;
+  readonly height: number;
+  readonly balloons: readonly Readonly<Balloon>[];
+  readonly particles: readonly Readonly<Particle>[];
+  readonly popups: readonly Readonly<ScorePopup>[];
+}
+
+export interface GameEngine {
+  readonly seed: number;
+  readonly options: Readonly<Required<GameEngineOptions>>;
+  /** Advances the simulation by deltaTime milliseconds. */
+  step(deltaTime: number): void;
+  pointerDown(x: number, y: number): void;
+  /**
+   * Settles a claim on a balloon (see claimPops): the winner pops it as usual,
+   * everyone else just sees it burst.
+   */
+  resolveClaim(balloonId: number, won: boolean): void;
+  /** Finishes the run on the player's request (the only way a Zen run ends). */
+  end(): void;
+  getState(): GameSnapshot;
+  /** Inputs received so far, in order; together with the seed they reproduce the run. */
+  getInputLog(): readonly GameInput[];
+  subscribe(listener: GameEventListener): () => void;
+}
+
+// ============================================================================
+// ENGINE FACTORY
+// ============================================================================
+
+export function createGameEngine(options: GameEngineOptions): GameEngine {
+  const config = options.config ?? DIFFICULTY_CONFIGS[options.difficulty];
+  const seed = options.seed ?? randomSeed();
+  const mode = options.mode ?? 'classic';
+  const timeLimit = options.timeLimit ?? DEFAULT_TIME_LIMIT;
+  const hitTolerance = Math.max(0, Math.min(MAX_HIT_TOLERANCE, options.hitTolerance ?? 0));
+  const palette = options.palette ?? 'standard';
+  const theme = options.theme ?? 'sky';
+  const particleScale = Math.max(0, Math.min(MAX_PARTICLE_SCALE, options.particleScale ?? 1));
+  const bombPenalty = Math.max(0, options.bombPenalty ?? 0);
+  const claimPops = options.claimPops ?? false;
+
+  // Spawns, pop effects, cosmetics and wind each roll from their own stream, so
+  // the spawn sequence is identical no matter how the player plays.
+  const rng = createRng(seed);
+  const fxRng = createRng(deriveSeed(seed, 1));
+  const effectRng = createRng(deriveSeed(seed, 2));
+  const windRng = createRng(deriveSeed(seed, 3));
+
+  const listeners = new Set<GameEventListener>();
+  const inputs: GameInput[] = [];
+  const pendingClaims = new Set<number>();
+  // Claims settled on balloons this client hasn't spawned yet, e.g. in a lagging tab
+  const earlyClaims = new Map<number, boolean>();
+
+  // Balloons and particles churn every frame, so removed ones are recycled
+  const balloonPool = createPool<Balloon>(() => ({} as Balloon));
+  const particlePool = createPool<Particle>(() => ({} as Particle));
+  const escaped: Balloon[] = [];
+
+  const game = {
+    status: 'playing' as GameStatus,
+    tick: 0,
+    time: 0,
+    score: 0,
+    lives: mode === 'survival' ? SURVIVAL_LIVES : 0,
+    balloons: [] as Balloon[],
+    particles: [] as Particle[],
+    popups: [] as ScorePopup[],
+    combo: 0,
+    maxCombo: 0,
+    lastPopTime: 0,
+    popped: 0,
+    bonusStreak: 0,
+    maxBonusStreak: 0,
+    popsByType: {} as Partial<Record<BalloonType, number>>,
+    clicks: 0,
+    hits: 0,
+    bonusTime: 0,
+    nextBalloonId: 0,
+    // Splitter fragments count down from -1 so spawned balloons keep the same
+    // ids however the field is played, which claims rely on
+    nextFragmentId: -1,
+    lastSpawnTime: 0,
+    currentSpawnInterval: config.spawnInterval,
+    currentSpeed: config.baseSpeed,
+    bonusEndTime: 0,
+    freezeEndTime: 0,
+    shieldActive: false,
+    wind: 0,
+    windTarget: 0,
+    gustEndTime: 0,
+    nextGustTime: WIND_GUST_INTERVAL * (0.5 + windRng()),
+    width: options.width,
+    height: options.height,
+  };
+
+  const emit = (event: GameEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const describeBalloon = (balloon: Balloon, color: string = getBalloonColor(balloon, palette, theme)): BalloonInfo => ({
+    id: balloon.id,
+    type: balloon.type,
+    x: balloon.x,
+    y: balloon.y,
+    color,
+  });
+
+  // ============================================================================
+  // PARTICLE SYSTEM
+  // ============================================================================
+
+  const createParticles = (x: number, y: number, color: string, baseCount: number = 12) => {
+    const count = Math.max(1, Math.round(baseCount * particleScale));
+    for (let i = 0; i < count; i++) {
+      const angle = (Math.PI * 2 * i) / count;
+      const speed = PARTICLE_MIN_SPEED + fxRng() * PARTICLE_SPEED_RANGE;
+      const particle = particlePool.acquire();
+      particle.x = x;
+      particle.y = y;
+      particle.prevX = x;
+      particle.prevY = y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.life = 1;
+      particle.maxLife = 0.5 + fxRng() * 0.5;
+      particle.color = color;
+      particle.size = 3 + fxRng() * 3;
+      game.particles.push(particle);
+    }
+  };
+
+  const createPopup = (x: number, y: number, text: string, color: string) => {
+    game.popups.push({ x, y, prevY: y, text, color, life: POPUP_DURATION, maxLife: POPUP_DURATION });
+  };
+
+  // ============================================================================
+  // COMBO SYSTEM
+  // ============================================================================
+
+  const breakCombo = (reason: ComboBreakReason) => {
+    if (game.combo === 0) return;
+
+    const combo = game.combo;
+    game.combo = 0;
+    emit({ type: 'comboBreak', combo, reason });
+  };
+
+  const extendCombo = () => {
+    game.combo++;
+    game.lastPopTime = game.time;
+    game.maxCombo = Math.max(game.maxCombo, game.combo);
+  };
+
+  // ============================================================================
+  // PHYSICS
+  // ============================================================================
+
+  // Gusts come and go on their own schedule, easing in and out
+  const updateWind = (seconds: number) => {
+    if (config.physics <= 0) return;
+
+    if (game.time >= game.nextGustTime) {
+      const direction = windRng() < 0.5 ? -1 : 1;
+      game.windTarget = direction * WIND_MAX_SPEED * config.physics * (0.5 + windRng() * 0.5);
+      game.gustEndTime = game.time + WIND_GUST_DURATION;
+      game.nextGustTime = game.time + WIND_GUST_INTERVAL * (0.5 + windRng());
+      emit({ type: 'gust', wind: game.windTarget });
+    } else if (game.time >= game.gustEndTime) {
+      game.windTarget = 0;
+    }
+    game.wind += (game.windTarget - game.wind) * Math.min(1, seconds * WIND_RESPONSE);
+  };
+
+  // Each balloon sways on its own beat, picked from its id so no rolls are needed
+  const getWobble = (balloon: Balloon) =>
+    (game.time / 1000) * WOBBLE_FREQUENCY * Math.PI * 2 + Math.abs(balloon.id) * 2.39996;
+
+  // Overlapping balloons are nudged apart rather than bounced, so crowds spread out gently
+  const resolveCollisions = () => {
+    const balloons = game.balloons;
+    for (let i = 0; i < balloons.length; i++) {
+      const a = balloons[i];
+      if (a.popped) continue;
+
+      for (let j = i + 1; j < balloons.length; j++) {
+        const b = balloons[j];
+        if (b.popped) continue;
+
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const minDistance = a.radius + b.radius;
+        const distanceSq = dx * dx + dy * dy;
+        if (distanceSq >= minDistance * minDistance || distanceSq === 0) continue;
+
+        const distance = Math.sqrt(distanceSq);
+        const push = ((minDistance - distance) * COLLISION_PUSH) / 2 / distance;
+        a.x -= dx * push;
+        a.y -= dy * push;
+        b.x += dx * push;
+        b.y += dy * push;
+      }
+    }
+  };
+
+  const bounceOffWalls = (balloon: Balloon) => {
+    if (balloon.x < balloon.radius) {
+      balloon.x = balloon.radius;
+      balloon.vx = Math.abs(balloon.vx);
+    } else if (balloon.x > game.width - balloon.radius) {
+      balloon.x = game.width - balloon.radius;
+      balloon.vx = -Math.abs(balloon.vx);
+    }
+  };
+
+  // ============================================================================
+  // BALLOON MANAGEMENT
+  // ============================================================================
+
+  // Cumulative spawn chances in registry order; anything left over is normal.
+  // Zen runs never spawn hazards.
+  const spawnChances: [BalloonType, number][] = BALLOON_TYPE_IDS
+    .filter(type => !(mode === 'zen' && getBalloonType(type).hazard))
+    .map(type => [type, config.spawnChances[type] ?? 0]);
+
+  const addBalloon = (
+    id: number,
+    type: BalloonType,
+    x: number,
+    y: number,
+    vx: number,
+    vy: number,
+    radius: number,
+    rotation: number,
+    rotationSpeed: number
+  ) => {
+    const balloon = balloonPool.acquire();
+    balloon.id = id;
+    balloon.x = x;
+    balloon.y = y;
+    balloon.prevX = x;
+    balloon.prevY = y;
+    balloon.vx = vx;
+    balloon.vy = vy;
+    balloon.radius = radius;
+    balloon.type = type;
+    balloon.popped = false;
+    balloon.popTime = undefined;
+    balloon.rotation = rotation;
+    balloon.prevRotation = rotation;
+    balloon.rotationSpeed = rotationSpeed;
+    game.balloons.push(balloon);
+  };
+
+  const spawnBalloon = () => {
+    // Determine balloon type
+    let type: BalloonType = 'normal';
+    const rand = rng();
+    let threshold = 0;
+
+    for (const [candidate, chance] of spawnChances) {
+      threshold += chance;
+      if (rand < threshold) {
+        type = candidate;
+        break;
+      }
+    }
+
+    // Sized from the world's short side, so balloons match in either orientation
+    const baseRadius = Math.min(game.width, game.height) * 0.05;
+    const radius = baseRadius * (0.8 + rng() * 0.4);
+
+    const x = radius + rng() * (game.width - radius * 2);
+    const y = game.height + radius;
+    const rotation = rng() * Math.PI * 2;
+    const vx = (rng() - 0.5) * BALLOON_DRIFT_SPEED;
+    const vy = -game.currentSpeed * (0.8 + rng() * 0.4);
+
+    const id = game.nextBalloonId++;
+    addBalloon(id, type, x, y, vx, vy, radius, rotation, (rng() - 0.5) * BALLOON_SPIN_SPEED);
+
+    const won = earlyClaims.get(id);
+    if (won !== undefined) {
+      earlyClaims.delete(id);
+      resolveClaim(id, won);
+    }
+  };
+
+  // Fragments fan out upwards from the splitter and are worth a normal pop each
+  const splitBalloon = (balloon: Balloon, fragments: number) => {
+    for (let i = 0; i < fragments; i++) {
+      const angle = -Math.PI / 2 + (i - (fragments - 1) / 2) * 0.5;
+      const speed = game.currentSpeed * SPLITTER_FRAGMENT_SPEED * (0.9 + effectRng() * 0.2);
+      addBalloon(
+        game.nextFragmentId--,
+        'normal',
+        balloon.x,
+        balloon.y,
+        Math.cos(angle) * speed,
+        Math.sin(angle) * speed,
+        balloon.radius * SPLITTER_FRAGMENT_SCALE,
+        effectRng() * Math.PI * 2,
+        (effectRng() - 0.5) * BALLOON_SPIN_SPEED * 2
+      );
+    }
+  };
+
+  // Pops every non-hazard balloon within reach; chained pops score as usual
+  const blastAround = (balloon: Balloon, radiusFraction: number) => {
+    const radius = Math.min(game.width, game.height) * radiusFraction;
+    const targets = game.balloons.filter(other => {
+      if (other.popped || getBalloonType(other.type).hazard) return false;
+      const dx = other.x - balloon.x;
+      const dy = other.y - balloon.y;
+      return Math.sqrt(dx * dx + dy * dy) <= radius + other.radius;
+    });
+
+    targets.forEach(target => popBalloon(target));
+    emit({ type: 'blast', x: balloon.x, y: balloon.y, radius, popped: targets.length });
+  };
+
+  const addScore = (points: number) => {
+    game.score += points;
+    emit({ type: 'score', score: game.score });
+  };
+
+  const endGame = (cause: GameOverCause) => {
+    game.status = 'over';
+    emit({ type: 'gameover', score: game.score, cause });
+  };
+
+  const loseLife = () => {
+    game.lives--;
+    emit({ type: 'lifeLost', lives: game.lives });
+    if (game.lives <= 0) endGame('lives');
+  };
+
+  // Bombs are absorbed by a shield, cost points in versus, a life in Survival
+  // and end the run otherwise
+  const detonate = (balloon: Balloon) => {
+    if (game.shieldActive) {
+      game.shieldActive = false;
+      emit({ type: 'shieldUsed' });
+      return;
+    }
+    breakCombo('bomb');
+    if (bombPenalty > 0) {
+      const points = Math.min(game.score, bombPenalty);
+      emit({ type: 'bombPenalty', points });
+      createPopup(balloon.x, balloon.y, `-${points}`, '#E74C3C');
+      addScore(-points);
+    } else if (mode === 'survival') {
+      loseLife();
+    } else {
+      endGame('bomb');
+    }
+  };
+
+  // Fragments only exist on the field of whoever split them, so they're never claimed
+  const popBalloon = (balloon: Balloon, claimed: boolean = false) => {
+    if (balloon.popped) return;
+    if (claimPops && !claimed && balloon.id >= 0) {
+      if (!pendingClaims.has(balloon.id)) {
+        pendingClaims.add(balloon.id);
+        emit({ type: 'claim', balloon: describeBalloon(balloon) });
+      }
+      return;
+    }
+
+    const now = game.time;
+    const definition = getBalloonType(balloon.type);
+    balloon.popped = true;
+    balloon.popTime = now;
+    game.popped++;
+    game.popsByType[balloon.type] = (game.popsByType[balloon.type] ?? 0) + 1;
+
+    const color = getBalloonColor(balloon, palette, theme);
+    createParticles(balloon.x, balloon.y, color, definition.particleCount);
+
+    if (definition.points > 0) {
+      extendCombo();
+      const bonusActive = now < game.bonusEndTime;
+      if (bonusActive) {
+        game.bonusStreak++;
+        game.maxBonusStreak = Math.max(game.maxBonusStreak, game.bonusStreak);
+      }
+      const bonusMultiplier = bonusActive ? BONUS_MULTIPLIER : 1;
+      const points = definition.points * bonusMultiplier * getComboMultiplier(game.combo);
+      emit({ type: 'pop', balloon: describeBalloon(balloon, color), points, combo: game.combo });
+      createPopup(balloon.x, balloon.y, `+${points}`, color);
+      addScore(points);
+    } else {
+      emit({ type: 'pop', balloon: describeBalloon(balloon, color), points: 0, combo: 0 });
+    }
+
+    definition.onPop?.(createPopEffectContext(balloon));
+  };
+
+  const createPopEffectContext = (balloon: Balloon): PopEffectContext => ({
+    balloon,
+    startBonus: duration => {
+      // Extending a running bonus keeps its streak going
+      if (game.time >= game.bonusEndTime) game.bonusStreak = 0;
+      game.bonusEndTime = game.time + duration;
+      emit({ type: 'bonusStart', endTime: game.bonusEndTime });
+    },
+    startFreeze: duration => {
+      game.freezeEndTime = game.time + duration;
+      emit({ type: 'freezeStart', endTime: game.freezeEndTime });
+    },
+    raiseShield: () => {
+      game.shieldActive = true;
+      emit({ type: 'shieldUp' });
+    },
+    blast: radius => blastAround(balloon, radius),
+    split: fragments => splitBalloon(balloon, fragments),
+    detonate: () => detonate(balloon),
+  });
+
+  // ============================================================================
+  // PUBLIC API
+  // ============================================================================
+
+  const pointerDown = (x: number, y: number) => {
+    if (game.status !== 'playing') return;
+
+    inputs.push({ tick: game.tick, type: 'pointer', x, y });
+    game.clicks++;
+
+    // Check collision with balloons (reverse order to prioritize front balloons).
+    // A direct hit wins; otherwise the closest balloon within tolerance is popped.
+    let target: Balloon | null = null;
+    let targetGap = Infinity;
+    for (let i = game.balloons.length - 1; i >= 0; i--) {
+      const balloon = game.balloons[i];
+      if (balloon.popped) continue;
+
+      const dx = x - balloon.x;
+      const dy = y - balloon.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      if (distance < balloon.radius) {
+        target = balloon;
+        break;
+      }
+
+      const gap = distance - balloon.radius;
+      if (gap < balloon.radius * hitTolerance && gap < targetGap) {
+        target = balloon;
+        targetGap = gap;
+      }
+    }
+
+    if (target) {
+      game.hits++;
+      popBalloon(target);
+      return; // Only pop one balloon per pointer
+    }
+
+    // Clicks that hit nothing break the combo
+    emit({ type: 'miss', x, y });
+    breakCombo('miss');
+  };
+
+  const resolveClaim = (balloonId: number, won: boolean) => {
+    pendingClaims.delete(balloonId);
+    if (game.status !== 'playing') return;
+    const balloon = game.balloons.find(candidate => candidate.id === balloonId);
+    if (!balloon) {
+      if (balloonId >= game.nextBalloonId) earlyClaims.set(balloonId, won);
+      return;
+    }
+    if (balloon.popped) return;
+
+    if (won) {
+      popBalloon(balloon, true);
+      return;
+    }
+    balloon.popped = true;
+    balloon.popTime = game.time;
+    createParticles(balloon.x, balloon.y, getBalloonColor(balloon, palette, theme), 6);
+  };
+
+  const step = (deltaTime: number) => {
+    if (game.status !== 'playing') return;
+
+    game.tick++;
+    game.time += deltaTime;
+    const currentTime = game.time;
+    const seconds = deltaTime / 1000;
+    if (currentTime <= game.bonusEndTime) game.bonusTime += deltaTime;
+    if (currentTime - deltaTime < game.bonusEndTime && currentTime >= game.bonusEndTime) {
+      emit({ type: 'bonusEnd' });
+    }
+
+    // Dynamic difficulty scaling
+    const elapsedSeconds = currentTime / 1000;
+    game.currentSpeed = config.baseSpeed + elapsedSeconds * config.speedIncreaseRate;
+    game.currentSpawnInterval = getSpawnInterval(config, elapsedSeconds);
+
+    if (game.combo > 0 && currentTime - game.lastPopTime > COMBO_WINDOW) {
+      breakCombo('timeout');
+    }
+
+    // Spawn balloons
+    if (currentTime - game.lastSpawnTime > game.currentSpawnInterval) {
+      spawnBalloon();
+      game.lastSpawnTime = currentTime;
+    }
+
+    updateWind(seconds);
+
+    // Update balloons (slowed down while a freeze is active)
+    const speedFactor = currentTime < game.freezeEndTime ? FREEZE_SLOWDOWN : 1;
+    compactInPlace(game.balloons, balloon => {
+      if (balloon.popped && currentTime - (balloon.popTime || 0) > POP_FADE_DURATION) {
+        return false; // Remove popped balloons after animation
+      }
+
+      balloon.prevX = balloon.x;
+      balloon.prevY = balloon.y;
+      balloon.prevRotation = balloon.rotation;
+      const wobble = getWobble(balloon);
+      const sway = Math.sin(wobble) * WOBBLE_SPEED * config.physics;
+      const bob = 1 + Math.cos(wobble) * BUOYANCY_BOB * config.physics;
+      balloon.x += (balloon.vx + game.wind + sway) * seconds * speedFactor;
+      balloon.y += balloon.vy * bob * seconds * speedFactor;
+      balloon.rotation += balloon.rotationSpeed * seconds * speedFactor;
+
+      // Remove balloons that float off screen
+      if (balloon.y + balloon.radius < 0) {
+        if (!balloon.popped && !getBalloonType(balloon.type).hazard) escaped.push(balloon);
+        return false;
+      }
+
+      return true;
+    }, balloon => {
+      if (!escaped.includes(balloon)) balloonPool.release(balloon);
+    });
+    resolveCollisions();
+    game.balloons.forEach(bounceOffWalls);
+
+    // Update particles
+    compactInPlace(game.particles, particle => {
+      particle.prevX = particle.x;
+      particle.prevY = particle.y;
+      particle.x += particle.vx * seconds;
+      particle.y += particle.vy * seconds;
+      particle.vy += PARTICLE_GRAVITY * seconds;
+      particle.life -= seconds;
+
+      return particle.life > 0;
+    }, particlePool.release);
+
+    // Update score popups
+    compactInPlace(game.popups, popup => {
+      popup.prevY = popup.y;
+      popup.y -= POPUP_RISE_SPEED * seconds;
+      popup.life -= seconds;
+
+      return popup.life > 0;
+    });
+
+    // Escaped balloons are reported after the update so listeners see a consistent field
+    escaped.forEach(balloon => {
+      if (game.status !== 'playing') return;
+      emit({ type: 'escape', balloon: describeBalloon(balloon) });
+      breakCombo('escape');
+      if (mode === 'survival') loseLife();
+    });
+    escaped.splice(0).forEach(balloonPool.release);
+
+    if (mode === 'timeAttack' && game.status === 'playing' && game.time >= timeLimit * 1000) {
+      endGame('time');
+    }
+  };
+
+  const end = () => {
+    if (game.status !== 'playing') return;
+
+    inputs.push({ tick: game.tick, type: 'end' });
+    endGame('quit');
+  };
+
+  const getState = (): GameSnapshot => {
+    return {
+      status: game.status,
+      difficulty: options.difficulty,
+      custom: !!options.config,
+      mode,
+      seed,
+      tick: game.tick,
+      now: game.time,
+      elapsed: game.time,
+      score: game.score,
+      lives: game.lives,
+      timeLeft: mode === 'timeAttack' ? Math.max(0, timeLimit * 1000 - game.time) : null,
+      bonusEndTime: game.bonusEndTime,
+      freezeEndTime: game.freezeEndTime,
+      shieldActive: game.shieldActive,
+      combo: game.combo,
+      comboMultiplier: getComboMultiplier(game.combo),
+      comboExpiresAt: game.lastPopTime + COMBO_WINDOW,
+      maxCombo: game.maxCombo,
+      popped: game.popped,
+      maxBonusStreak: game.maxBonusStreak,
+      popsByType: game.popsByType,
+      clicks: game.clicks,
+      hits: game.hits,
+      bonusTime: game.bonusTime,
+      currentSpeed: game.currentSpeed,
+      currentSpawnInterval: game.currentSpawnInterval,
+      wind: game.wind,
+      width: game.width,
+      height: game.height,
+      balloons: game.balloons,
+      particles: game.particles,
+      popups: game.popups,
+    };
+  };
+
+  const getInputLog = (): readonly GameInput[] => inputs;
+
+  const subscribe = (listener: GameEventListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    seed,
+    options: {
+      ...options,
+      seed,
+      mode,
+      timeLimit,
+      hitTolerance,
+      config: options.config ?? null,
+      bombPenalty,
+      claimPops,
+      palette,
+      theme,
+      particleScale,
+    },
+    step,
+    pointerDown,
+    resolveClaim,
+    end,
+    getState,
+    getInputLog,
+    subscribe,
+  };
+}
+
+/** Time between spawns once a run has lasted this long; it depends on the rules alone. */
+export function getSpawnInterval(config: DifficultyConfig, elapsedSeconds: number): number {
+  return Math.max(
+    Math.min(MIN_SPAWN_INTERVAL, config.spawnInterval),
+    config.spawnInterval * Math.pow(config.spawnDecreaseRate, elapsedSeconds / 10)
+  );
+}
+
+export function getComboMultiplier(combo: number): number {
+  return Math.min(COMBO_MAX_MULTIPLIER, 1 + Math.floor(combo / COMBO_STEP));
+}
@@ -0,0 +1,123 @@
+import { createGameEngine, type GameEngine, type GameSnapshot } from './engine';
+import { createFixedStepLoop, FIXED_TIMESTEP, type FixedStepLoop } from './loop';
+import type { WorkerMessage, WorkerRequest } from './offscreen';
+import { isTapRingVisible, renderFitted, type RenderOptions, type RenderOverlay, type TapRing } from './render';
+
+// ============================================================================
+// GAME WORKER
+// ============================================================================
+
+// Runs one solo game on a transferred canvas; see createWorkerEngine.
+// Typed by hand because the project compiles against the DOM lib, not WebWorker.
+const scope = self as unknown as {
+  postMessage(message: WorkerMessage): void;
+  addEventListener(type: 'message', listener: (e: MessageEvent<WorkerRequest>) => void): void;
+  requestAnimationFrame?: (callback: (timestamp: number) => void) => number;
+  cancelAnimationFrame?: (id: number) => void;
+};
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: CanvasRenderingContext2D | null = null;
+let engine: GameEngine | null = null;
+let loop: FixedStepLoop | null = null;
+let overlay: RenderOverlay = {};
+let display: RenderOptions = {};
+// Taps are judged here, where the pop happens
+let taps: TapRing[] = [];
+let frameId: number | null = null;
+
+// Particles and popups stay in the worker; the page never reads them
+const toMessageState = (state: GameSnapshot): GameSnapshot => ({ ...state, particles: [], popups: [] });
+
+// Not every browser with OffscreenCanvas has animation frames in workers
+const requestFrame = (callback: (timestamp: number) => void) =>
+  scope.requestAnimationFrame
+    ? scope.requestAnimationFrame(callback)
+    : (setTimeout(() => callback(performance.now()), FIXED_TIMESTEP) as unknown as number);
+
+const cancelFrame = (id: number) => {
+  if (scope.cancelAnimationFrame) scope.cancelAnimationFrame(id);
+  else clearTimeout(id);
+};
+
+const render = (alpha: number) => {
+  if (!ctx || !engine) return;
+
+  const state = engine.getState();
+  taps = taps.filter(ring => isTapRingVisible(ring, state.now));
+  renderFitted(ctx, state, alpha, { ...overlay, taps }, display);
+};
+
+const frame = (timestamp: number) => {
+  if (!engine || !loop) return;
+
+  loop.frame(timestamp);
+  scope.postMessage({ type: 'state', state: toMessageState(engine.getState()) });
+  frameId = engine.getState().status === 'playing' ? requestFrame(frame) : null;
+};
+
+const pause = () => {
+  if (frameId !== null) cancelFrame(frameId);
+  frameId = null;
+};
+
+scope.addEventListener('message', e => {
+  const request = e.data;
+  switch (request.type) {
+    case 'start': {
+      canvas = request.canvas;
+      // The offscreen context draws the same way; only its canvas property differs
+      ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D | null;
+      display = request.display;
+
+      const game = createGameEngine(request.options);
+      game.subscribe(event => {
+        scope.postMessage({
+          type: 'event',
+          event,
+          state: toMessageState(game.getState()),
+          inputs: event.type === 'gameover' ? game.getInputLog().map(input => ({ ...input })) : undefined,
+        });
+      });
+      engine = game;
+      loop = createFixedStepLoop({
+        timestep: request.timestep,
+        update: () => game.step(FIXED_TIMESTEP),
+        render,
+      });
+      render(1);
+      break;
+    }
+    case 'pointer': {
+      if (!engine || engine.getState().status !== 'playing') break;
+
+      const hitsBefore = engine.getState().hits;
+      engine.pointerDown(request.x, request.y);
+      const state = engine.getState();
+      taps.push({ x: request.x, y: request.y, hit: state.hits > hitsBefore, shownAt: state.now });
+      break;
+    }
+    case 'resize':
+      if (!canvas) break;
+      canvas.width = request.width;
+      canvas.height = request.height;
+      // Resizing clears the canvas; redraw so a paused game stays visible
+      render(1);
+      break;
+    case 'end':
+      engine?.end();
+      break;
+    case 'pause':
+      pause();
+      break;
+    case 'resume':
+      if (frameId !== null || !engine || engine.getState().status !== 'playing') break;
+      loop?.reset();
+      frameId = requestFrame(frame);
+      break;
+    case 'overlay':
+      overlay = request.overlay;
+      display = request.display;
+      break;
+  }
+});
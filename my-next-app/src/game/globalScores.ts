@@ -0,0 +1,82 @@
+import type { Replay } from './replay';
+import type { Difficulty, GameMode } from './types';
+
+// ============================================================================
+// GLOBAL SCORES API
+// ============================================================================
+
+export const GLOBAL_SCORES_ENDPOINT = '/api/scores';
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+export interface GlobalScoreEntry {
+  id: string;
+  name: string;
+  score: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  /** Round length in seconds; only Time Attack boards are split by it. */
+  timeLimit: number;
+  /** Milliseconds of simulated time. */
+  duration: number;
+  popped: number;
+  maxBonusStreak: number;
+  seed: number;
+  submittedAt: string;
+}
+
+export interface GlobalScorePage {
+  entries: GlobalScoreEntry[];
+  /** 1-based page number. */
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface GlobalScoreSubmission {
+  name: string;
+  replay: Replay;
+}
+
+export interface GlobalScoreResult {
+  entry: GlobalScoreEntry;
+  /** 1-based position on its mode/difficulty/length board. */
+  rank: number;
+}
+
+export async function fetchGlobalScores(
+  mode: GameMode,
+  difficulty: Difficulty,
+  timeLimit: number,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<GlobalScorePage> {
+  const params = new URLSearchParams({
+    mode,
+    difficulty,
+    timeLimit: String(timeLimit),
+    page: String(page),
+    pageSize: String(pageSize),
+  });
+  const response = await fetch(`${GLOBAL_SCORES_ENDPOINT}?${params}`);
+  return readResponse(response);
+}
+
+/** Sends the full replay so the server can re-simulate it before accepting the score. */
+export async function submitGlobalScore(name: string, replay: Replay): Promise<GlobalScoreResult> {
+  const response = await fetch(GLOBAL_SCORES_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, replay } satisfies GlobalScoreSubmission),
+  });
+  return readResponse(response);
+}
+
+// Error responses carry { error: string }; surface that message to the caller
+async function readResponse<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? `Request failed (${response.status})`);
+  }
+  return data as T;
+}
@@ -0,0 +1,205 @@
+import { BALLOON_TYPE_IDS, type BalloonType } from './balloonTypes';
+import { DIFFICULTIES } from './config';
+import type { GameOverCause, GameSnapshot } from './engine';
+import type { Difficulty, GameMode } from './types';
+
+// ============================================================================
+// RUN HISTORY
+// ============================================================================
+
+const HISTORY_STORAGE_KEY = 'balloonRunHistory';
+// Oldest runs are dropped past this point to keep localStorage small
+export const MAX_HISTORY_RUNS = 500;
+
+export interface RunRecord {
+  /** ISO timestamp of when the run finished. */
+  date: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  daily: boolean;
+  /** Played with custom difficulty rules; missing on older records. */
+  custom?: boolean;
+  score: number;
+  /** Milliseconds of simulated time. */
+  duration: number;
+  pops: Partial<Record<BalloonType, number>>;
+  clicks: number;
+  hits: number;
+  /** Milliseconds spent with the bonus multiplier active. */
+  bonusTime: number;
+  cause: GameOverCause;
+}
+
+export interface RunHistory {
+  version: 1;
+  /** Oldest first. */
+  runs: RunRecord[];
+}
+
+export function createEmptyRunHistory(): RunHistory {
+  return { version: 1, runs: [] };
+}
+
+export function createRunRecord(state: GameSnapshot, cause: GameOverCause, daily: boolean): RunRecord {
+  return {
+    date: new Date().toISOString(),
+    difficulty: state.difficulty,
+    mode: state.mode,
+    daily,
+    custom: state.custom,
+    score: state.score,
+    duration: state.elapsed,
+    pops: { ...state.popsByType },
+    clicks: state.clicks,
+    hits: state.hits,
+    bonusTime: state.bonusTime,
+    cause,
+  };
+}
+
+export function loadRunHistory(): RunHistory {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed?.version === 1 && Array.isArray(parsed.runs)) return parsed;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return createEmptyRunHistory();
+}
+
+export function saveRunHistory(history: RunHistory) {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+/** Returns a new history with the run appended and the oldest runs trimmed. */
+export function recordRun(history: RunHistory, run: RunRecord): RunHistory {
+  return { ...history, runs: [...history.runs, run].slice(-MAX_HISTORY_RUNS) };
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+export interface LifetimeTotals {
+  runs: number;
+  score: number;
+  bestScore: number;
+  playTime: number;
+  pops: number;
+  clicks: number;
+  hits: number;
+  bonusTime: number;
+  popsByType: Partial<Record<BalloonType, number>>;
+}
+
+export interface DifficultyAverages {
+  difficulty: Difficulty;
+  runs: number;
+  score: number;
+  duration: number;
+  accuracy: number;
+}
+
+export function getLifetimeTotals(history: RunHistory): LifetimeTotals {
+  const totals: LifetimeTotals = {
+    runs: history.runs.length,
+    score: 0,
+    bestScore: 0,
+    playTime: 0,
+    pops: 0,
+    clicks: 0,
+    hits: 0,
+    bonusTime: 0,
+    popsByType: {},
+  };
+
+  history.runs.forEach(run => {
+    totals.score += run.score;
+    totals.bestScore = Math.max(totals.bestScore, run.score);
+    totals.playTime += run.duration;
+    totals.clicks += run.clicks;
+    totals.hits += run.hits;
+    totals.bonusTime += run.bonusTime;
+    BALLOON_TYPE_IDS.forEach(type => {
+      const count = run.pops[type] ?? 0;
+      totals.pops += count;
+      if (count > 0) totals.popsByType[type] = (totals.popsByType[type] ?? 0) + count;
+    });
+  });
+
+  return totals;
+}
+
+export function getDifficultyAverages(history: RunHistory): DifficultyAverages[] {
+  return DIFFICULTIES.map(difficulty => {
+    const runs = history.runs.filter(run => run.difficulty === difficulty && !run.custom);
+    const count = Math.max(1, runs.length);
+    return {
+      difficulty,
+      runs: runs.length,
+      score: runs.reduce((sum, run) => sum + run.score, 0) / count,
+      duration: runs.reduce((sum, run) => sum + run.duration, 0) / count,
+      accuracy: getAccuracy(runs),
+    };
+  });
+}
+
+/** Hits per click across the runs, 0 when nothing was clicked. */
+export function getAccuracy(runs: readonly RunRecord[]): number {
+  const clicks = runs.reduce((sum, run) => sum + run.clicks, 0);
+  const hits = runs.reduce((sum, run) => sum + run.hits, 0);
+  return clicks > 0 ? hits / clicks : 0;
+}
+
+/** Accuracy over a rolling window of runs, one point per run that had clicks. */
+export function getAccuracyTrend(history: RunHistory, window: number = 5): number[] {
+  const clicked = history.runs.filter(run => run.clicks > 0);
+  return clicked.map((_, i) => getAccuracy(clicked.slice(Math.max(0, i - window + 1), i + 1)));
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export function serializeRunHistory(history: RunHistory): string {
+  return JSON.stringify(history, null, 2);
+}
+
+export function runHistoryToCsv(history: RunHistory): string {
+  const header = [
+    'date',
+    'mode',
+    'difficulty',
+    'daily',
+    'custom',
+    'score',
+    'duration_ms',
+    'clicks',
+    'hits',
+    'bonus_time_ms',
+    'cause',
+    ...BALLOON_TYPE_IDS.map(type => `pops_${type}`),
+  ];
+  const rows = history.runs.map(run => [
+    run.date,
+    run.mode,
+    run.difficulty,
+    run.daily,
+    run.custom ?? false,
+    run.score,
+    Math.round(run.duration),
+    run.clicks,
+    run.hits,
+    Math.round(run.bonusTime),
+    run.cause,
+    ...BALLOON_TYPE_IDS.map(type => run.pops[type] ?? 0),
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n');
+}
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { LEADERBOARD_VERSION, getBestScore, getLeaderboardEntries, migrateHighScores } from './leaderboard';
+import { DEFAULT_TIME_LIMIT, TIME_ATTACK_DURATIONS, getScoreKey } from './modes';
+
+describe('migrateHighScores', () => {
+  test('bare difficulty keys become Classic boards', () => {
+    const leaderboard = migrateHighScores({ easy: 12, hard: 40 });
+
+    assert.equal(leaderboard.version, LEADERBOARD_VERSION);
+    assert.equal(getBestScore(leaderboard, getScoreKey('classic', 'easy', DEFAULT_TIME_LIMIT)), 12);
+    assert.equal(getBestScore(leaderboard, getScoreKey('classic', 'hard', DEFAULT_TIME_LIMIT)), 40);
+    assert.deepEqual(getLeaderboardEntries(leaderboard, getScoreKey('classic', 'easy', DEFAULT_TIME_LIMIT)), [
+      { name: '???', score: 12, date: '', duration: 0, popped: 0, maxBonusStreak: 0 },
+    ]);
+  });
+
+  test('mode keys keep their mode, and the better of two Classic scores wins', () => {
+    const leaderboard = migrateHighScores({ medium: 15, 'classic:medium': 25, 'survival:hard': 30, 'zen:easy': 50 });
+
+    assert.equal(getBestScore(leaderboard, getScoreKey('classic', 'medium', DEFAULT_TIME_LIMIT)), 25);
+    assert.equal(getBestScore(leaderboard, getScoreKey('survival', 'hard', DEFAULT_TIME_LIMIT)), 30);
+    assert.equal(getBestScore(leaderboard, getScoreKey('zen', 'easy', DEFAULT_TIME_LIMIT)), 50);
+    assert.equal(Object.keys(leaderboard.boards).length, 3);
+  });
+
+  test('Time Attack scores of unknown length go on the longest board', () => {
+    const leaderboard = migrateHighScores({ 'timeAttack:medium': 80 });
+    const longest = Math.max(...TIME_ATTACK_DURATIONS);
+
+    assert.equal(getBestScore(leaderboard, getScoreKey('timeAttack', 'medium', longest)), 80);
+    assert.equal(getBestScore(leaderboard, getScoreKey('timeAttack', 'medium', DEFAULT_TIME_LIMIT)), 0);
+  });
+
+  test('skips empty scores, non-numbers and unknown keys', () => {
+    const leaderboard = migrateHighScores({
+      easy: 0,
+      medium: '20',
+      hard: -5,
+      expert: 10,
+      'arcade:easy': 10,
+      'classic:easy:extra': 10,
+    });
+
+    assert.deepEqual(leaderboard.boards, {});
+  });
+});
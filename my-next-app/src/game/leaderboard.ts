@@ -0,0 +1,163 @@
+import { DIFFICULTIES } from './config';
+import { DEFAULT_TIME_LIMIT, GAME_MODES, TIME_ATTACK_DURATIONS, getScoreKey } from './modes';
+import type { Difficulty, GameMode } from './types';
+
+// ============================================================================
+// LOCAL LEADERBOARD
+// ============================================================================
+
+export const LEADERBOARD_VERSION = 2;
+export const LEADERBOARD_SIZE = 10;
+export const MAX_NAME_LENGTH = 12;
+const LEADERBOARD_STORAGE_KEY = 'balloonLeaderboard';
+// Version 1 was a single best score per difficulty (later per mode/difficulty key)
+const LEGACY_HIGH_SCORES_KEY = 'balloonHighScores';
+const UNKNOWN_PLAYER = '???';
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  /** ISO timestamp of when the run finished; empty for migrated scores. */
+  date: string;
+  /** Run length in milliseconds of simulated time. */
+  duration: number;
+  popped: number;
+  maxBonusStreak: number;
+  /** Assists the run was played with; missing on entries saved before they were recorded. */
+  gameSpeed?: number;
+  hitTolerance?: number;
+  aimAssist?: boolean;
+}
+
+export interface Leaderboard {
+  version: typeof LEADERBOARD_VERSION;
+  /** Entries sorted best first, keyed by getScoreKey(mode, difficulty, timeLimit). */
+  boards: Record<string, LeaderboardEntry[]>;
+  /** Name last typed on the game over screen, offered as the default next time. */
+  lastName: string;
+}
+
+export function createEmptyLeaderboard(): Leaderboard {
+  return { version: LEADERBOARD_VERSION, boards: {}, lastName: '' };
+}
+
+// ============================================================================
+// STORAGE & MIGRATION
+// ============================================================================
+
+export function loadLeaderboard(): Leaderboard {
+  try {
+    const saved = localStorage.getItem(LEADERBOARD_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed?.version === LEADERBOARD_VERSION && parsed.boards) return parsed;
+    }
+
+    const legacy = localStorage.getItem(LEGACY_HIGH_SCORES_KEY);
+    if (legacy) {
+      const migrated = migrateHighScores(JSON.parse(legacy));
+      saveLeaderboard(migrated);
+      return migrated;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return createEmptyLeaderboard();
+}
+
+export function saveLeaderboard(leaderboard: Leaderboard) {
+  try {
+    localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(leaderboard));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Converts the old `balloonHighScores` record into a leaderboard. Bare
+ * difficulty keys predate game modes and are Classic scores.
+ */
+export function migrateHighScores(saved: Record<string, unknown>): Leaderboard {
+  const best: Record<string, number> = {};
+  Object.entries(saved ?? {}).forEach(([key, value]) => {
+    if (typeof value !== 'number' || value <= 0) return;
+    const scoreKey = migrateScoreKey(key);
+    if (scoreKey) best[scoreKey] = Math.max(best[scoreKey] ?? 0, value);
+  });
+
+  const leaderboard = createEmptyLeaderboard();
+  Object.entries(best).forEach(([key, score]) => {
+    leaderboard.boards[key] = [
+      { name: UNKNOWN_PLAYER, score, date: '', duration: 0, popped: 0, maxBonusStreak: 0 },
+    ];
+  });
+  return leaderboard;
+}
+
+// Old Time Attack scores don't say how long the round was; any of them fits the longest board
+function migrateScoreKey(key: string): string | null {
+  const parts = key.split(':');
+  const mode: GameMode | undefined = parts.length === 1 ? 'classic' : GAME_MODES.find(option => option === parts[0]);
+  const difficulty: Difficulty | undefined = DIFFICULTIES.find(diff => diff === parts[parts.length - 1]);
+  if (!mode || !difficulty || parts.length > 2) return null;
+  return getScoreKey(mode, difficulty, mode === 'timeAttack' ? Math.max(...TIME_ATTACK_DURATIONS) : DEFAULT_TIME_LIMIT);
+}
+
+// ============================================================================
+// QUERIES & UPDATES
+// ============================================================================
+
+export function getLeaderboardEntries(leaderboard: Leaderboard, key: string): LeaderboardEntry[] {
+  return leaderboard.boards[key] ?? [];
+}
+
+export function getBestScore(leaderboard: Leaderboard, key: string): number {
+  return getLeaderboardEntries(leaderboard, key)[0]?.score ?? 0;
+}
+
+/** Whether a score would make it onto the board for this key. */
+export function qualifiesForLeaderboard(leaderboard: Leaderboard, key: string, score: number): boolean {
+  if (score <= 0) return false;
+  const entries = getLeaderboardEntries(leaderboard, key);
+  return entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score;
+}
+
+/**
+ * Returns a new leaderboard with the entry inserted and the board trimmed, and
+ * the entry's 1-based rank (null if it didn't make the cut). Ties keep the
+ * earlier run ahead.
+ */
+export function addLeaderboardEntry(
+  leaderboard: Leaderboard,
+  key: string,
+  entry: LeaderboardEntry
+): { leaderboard: Leaderboard; rank: number | null } {
+  const name = entry.name.trim().slice(0, MAX_NAME_LENGTH) || UNKNOWN_PLAYER;
+  const saved = { ...entry, name };
+  const entries = [...getLeaderboardEntries(leaderboard, key), saved]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, LEADERBOARD_SIZE);
+  const index = entries.indexOf(saved);
+
+  return {
+    leaderboard: {
+      ...leaderboard,
+      boards: { ...leaderboard.boards, [key]: entries },
+      lastName: entry.name.trim().slice(0, MAX_NAME_LENGTH),
+    },
+    rank: index === -1 ? null : index + 1,
+  };
+}
+
+/** Clears one board, or every board when no key is given. */
+export function resetLeaderboard(leaderboard: Leaderboard, key?: string): Leaderboard {
+  if (key === undefined) return { ...createEmptyLeaderboard(), lastName: leaderboard.lastName };
+
+  const boards = { ...leaderboard.boards };
+  delete boards[key];
+  return { ...leaderboard, boards };
+}
+
+export function serializeLeaderboard(leaderboard: Leaderboard): string {
+  return JSON.stringify(leaderboard, null, 2);
+}
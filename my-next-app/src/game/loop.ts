@@ -0,0 +1,59 @@
+// ============================================================================
+// FIXED-TIMESTEP LOOP
+// ============================================================================
+
+export const FIXED_TIMESTEP = 1000 / 60; // simulation step, ms
+export const MAX_FRAME_TIME = 250; // clamp for long stalls (tab switches, GC), ms
+
+export interface FixedStepLoopOptions {
+  /** Advances the simulation by exactly one timestep (ms). */
+  update: (timestep: number) => void;
+  /** Draws the current state; alpha in [0, 1) is how far we are into the next step. */
+  render: (alpha: number) => void;
+  timestep?: number;
+  maxFrameTime?: number;
+}
+
+export interface FixedStepLoop {
+  /** Feed a requestAnimationFrame timestamp. */
+  frame(timestamp: number): void;
+  /** Forget the previous timestamp, e.g. after the loop was stopped for a while. */
+  reset(): void;
+}
+
+/**
+ * Decouples simulation from display refresh rate: real elapsed time goes into
+ * an accumulator that is drained in fixed steps, so a 144Hz monitor and a
+ * throttled laptop run the exact same simulation.
+ */
+export function createFixedStepLoop(options: FixedStepLoopOptions): FixedStepLoop {
+  const timestep = options.timestep ?? FIXED_TIMESTEP;
+  const maxFrameTime = options.maxFrameTime ?? MAX_FRAME_TIME;
+
+  let lastTimestamp: number | null = null;
+  let accumulator = 0;
+
+  const frame = (timestamp: number) => {
+    if (lastTimestamp === null) {
+      lastTimestamp = timestamp;
+    }
+
+    const frameTime = Math.min(Math.max(0, timestamp - lastTimestamp), maxFrameTime);
+    lastTimestamp = timestamp;
+    accumulator += frameTime;
+
+    while (accumulator >= timestep) {
+      options.update(timestep);
+      accumulator -= timestep;
+    }
+
+    options.render(accumulator / timestep);
+  };
+
+  const reset = () => {
+    lastTimestamp = null;
+    accumulator = 0;
+  };
+
+  return { frame, reset };
+}
@@ -0,0 +1,50 @@
+import type { Difficulty, GameMode } from './types';
+
+// ============================================================================
+// GAME MODES
+// ============================================================================
+
+export const TIME_ATTACK_DURATIONS = [60, 90, 120]; // seconds
+export const DEFAULT_TIME_LIMIT = 60;
+export const SURVIVAL_LIVES = 3;
+
+export interface ModeConfig {
+  label: string;
+  icon: string;
+  description: string;
+}
+
+export const MODE_CONFIGS: Record<GameMode, ModeConfig> = {
+  classic: {
+    label: 'Classic',
+    icon: '🎈',
+    description: 'Play until you pop a bomb.',
+  },
+  timeAttack: {
+    label: 'Time Attack',
+    icon: '⏱',
+    description: 'Score as much as you can before the clock runs out.',
+  },
+  survival: {
+    label: 'Survival',
+    icon: '❤️',
+    description: `Start with ${SURVIVAL_LIVES} lives. Bombs and escaped balloons cost a life.`,
+  },
+  zen: {
+    label: 'Zen',
+    icon: '🧘',
+    description: 'No bombs, no game over. Pop at your own pace.',
+  },
+};
+
+export const GAME_MODES: GameMode[] = ['classic', 'timeAttack', 'survival', 'zen'];
+
+/** Key under which a mode/difficulty combination keeps its own high score. */
+export function getScoreKey(mode: GameMode, difficulty: Difficulty, timeLimit: number): string {
+  return addTimeLimitToKey(`${mode}:${difficulty}`, mode, timeLimit);
+}
+
+/** Longer Time Attack rounds score more, so each length is ranked on its own board. */
+export function addTimeLimitToKey(key: string, mode: GameMode, timeLimit: number): string {
+  return mode === 'timeAttack' ? `${key}:${timeLimit}s` : key;
+}
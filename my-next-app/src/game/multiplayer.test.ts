@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createGameEngine } from './engine';
+import { FIXED_TIMESTEP } from './loop';
+import { MULTIPLAYER_FIELD, countSpawnedBalloons, parseClientMessage } from './multiplayer';
+
+describe('countSpawnedBalloons', () => {
+  test('matches the balloons a match on the same rules spawns', () => {
+    const engine = createGameEngine({ difficulty: 'hard', mode: 'timeAttack', ...MULTIPLAYER_FIELD, seed: 99 });
+    let spawned = 0;
+    for (let tick = 1; tick <= 60 * 30; tick++) {
+      engine.step(FIXED_TIMESTEP);
+      engine.getState().balloons.forEach(balloon => {
+        spawned = Math.max(spawned, balloon.id + 1);
+      });
+      if (tick % 60 === 0) assert.equal(countSpawnedBalloons('hard', engine.getState().now), spawned);
+    }
+    assert.ok(spawned > 0);
+  });
+});
+
+describe('parseClientMessage', () => {
+  test('keeps only the fields of well-formed messages', () => {
+    const create = { type: 'create', name: ' Ann ', settings: { difficulty: 'easy', timeLimit: 90, seed: 1 } };
+    assert.deepEqual(parseClientMessage(JSON.stringify(create)), {
+      type: 'create',
+      name: 'Ann',
+      settings: { difficulty: 'easy', timeLimit: 90 },
+    });
+    assert.deepEqual(parseClientMessage('{"type":"claim","balloonId":4}'), { type: 'claim', balloonId: 4 });
+  });
+
+  test('rejects malformed messages', () => {
+    assert.equal(parseClientMessage('not json'), null);
+    assert.equal(parseClientMessage('[]'), null);
+    assert.equal(parseClientMessage('{"type":"claim","balloonId":-1}'), null);
+    assert.equal(parseClientMessage('{"type":"score","score":"10"}'), null);
+    assert.equal(parseClientMessage('{"type":"create","name":"Ann","settings":{"difficulty":"easy","timeLimit":45}}'), null);
+    assert.equal(parseClientMessage('{"type":"cheat"}'), null);
+  });
+});
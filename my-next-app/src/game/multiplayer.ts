@@ -0,0 +1,240 @@
+import { BALLOON_TYPE_IDS, SPLITTER_FRAGMENTS, getBalloonType } from './balloonTypes';
+import { BONUS_MULTIPLIER, COMBO_MAX_MULTIPLIER, DIFFICULTIES, DIFFICULTY_CONFIGS } from './config';
+import { getSpawnInterval } from './engine';
+import { MAX_NAME_LENGTH } from './leaderboard';
+import { FIXED_TIMESTEP } from './loop';
+import { TIME_ATTACK_DURATIONS } from './modes';
+import type { Difficulty } from './types';
+import { LANDSCAPE_WORLD } from './world';
+
+// ============================================================================
+// ONLINE MULTIPLAYER PROTOCOL
+// ============================================================================
+
+export const MULTIPLAYER_PORT = 3001;
+export const ROOM_CODE_LENGTH = 4;
+// No 0/O or 1/I, so codes can be read out loud
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const MAX_ROOM_PLAYERS = 4;
+export const MULTIPLAYER_COUNTDOWN = 3000; // ms between the host starting and play
+export const PLAYER_COLORS = ['#E74C3C', '#3498DB', '#27AE60', '#9B59B6'];
+
+// Every player simulates the same world whatever their screen's shape, so
+// the shared seed spawns identical balloons for everyone
+export const MULTIPLAYER_FIELD = LANDSCAPE_WORLD;
+
+const getMaxPopPoints = (points: number) => points * BONUS_MULTIPLIER * COMBO_MAX_MULTIPLIER;
+
+/**
+ * Most points a single won claim can lead to: the best balloon popped at full
+ * bonus and combo, or a splitter plus the fragments it leaves, which pop
+ * locally without claims. Reported scores above this per win are rejected.
+ */
+export const MAX_POINTS_PER_CLAIM = Math.max(
+  ...BALLOON_TYPE_IDS.map(type => getMaxPopPoints(getBalloonType(type).points)),
+  getMaxPopPoints(getBalloonType('splitter').points) + SPLITTER_FRAGMENTS * getMaxPopPoints(getBalloonType('normal').points)
+);
+
+// Clients start on their own timer, so the server allows for one that ran a little early
+export const CLAIM_CLOCK_SLACK = 1000; // ms
+
+/**
+ * Balloons spawned in the first `elapsed` ms of a match. Spawn times follow the
+ * rules alone, not the seed or how anyone plays, so a claim on a higher id is
+ * for a balloon nobody can have seen yet.
+ */
+export function countSpawnedBalloons(difficulty: Difficulty, elapsed: number): number {
+  const config = DIFFICULTY_CONFIGS[difficulty];
+  let count = 0;
+  let time = 0;
+  let lastSpawnTime = 0;
+  // Steps the same way the engine does, so float rounding matches too
+  while (time + FIXED_TIMESTEP <= elapsed) {
+    time += FIXED_TIMESTEP;
+    if (time - lastSpawnTime > getSpawnInterval(config, time / 1000)) {
+      count++;
+      lastSpawnTime = time;
+    }
+  }
+  return count;
+}
+
+export interface RoomSettings {
+  difficulty: Difficulty;
+  /** Round length in seconds; online matches are always Time Attack. */
+  timeLimit: number;
+}
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  color: string;
+  score: number;
+  /** Whether the player's round has ended. */
+  finished: boolean;
+}
+
+/** What a client knows about the room it's in. */
+export interface OnlineRoom {
+  code: string;
+  playerId: string;
+  hostId: string;
+  players: RoomPlayer[];
+  settings: RoomSettings;
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; settings: RoomSettings }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'leave' }
+  | { type: 'start' }
+  | { type: 'claim'; balloonId: number }
+  | { type: 'score'; score: number }
+  | { type: 'finish'; score: number };
+
+export type ServerMessage =
+  | { type: 'joined'; code: string; playerId: string; hostId: string; players: RoomPlayer[]; settings: RoomSettings }
+  | { type: 'players'; hostId: string; players: RoomPlayer[] }
+  | { type: 'start'; seed: number; settings: RoomSettings; startsIn: number }
+  | { type: 'popped'; balloonId: number; playerId: string }
+  | { type: 'results'; players: RoomPlayer[] }
+  | { type: 'error'; message: string };
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase().slice(0, ROOM_CODE_LENGTH);
+}
+
+export function isValidRoomSettings(data: unknown): data is RoomSettings {
+  return (
+    isRecord(data) &&
+    DIFFICULTIES.includes(data.difficulty as Difficulty) &&
+    TIME_ATTACK_DURATIONS.includes(data.timeLimit as number)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isValidName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0 && name.length <= MAX_NAME_LENGTH;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/** Checks a message from a client is well formed; null when it isn't. */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  switch (data.type) {
+    case 'create':
+      return isValidName(data.name) && isValidRoomSettings(data.settings)
+        ? {
+            type: 'create',
+            name: data.name.trim(),
+            settings: { difficulty: data.settings.difficulty, timeLimit: data.settings.timeLimit },
+          }
+        : null;
+    case 'join':
+      return isValidName(data.name) && typeof data.code === 'string'
+        ? { type: 'join', code: normalizeRoomCode(data.code), name: data.name.trim() }
+        : null;
+    case 'leave':
+    case 'start':
+      return { type: data.type };
+    case 'claim':
+      return isCount(data.balloonId) ? { type: 'claim', balloonId: data.balloonId } : null;
+    case 'score':
+    case 'finish':
+      return isCount(data.score) ? { type: data.type, score: data.score } : null;
+    default:
+      return null;
+  }
+}
+
+/** Players best first; ties keep join order. */
+export function rankPlayers(players: readonly RoomPlayer[]): RoomPlayer[] {
+  return [...players].sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+export type MultiplayerEvent = ServerMessage | { type: 'connected' } | { type: 'disconnected' };
+
+export type MultiplayerListener = (event: MultiplayerEvent) => void;
+
+export interface MultiplayerClient {
+  /** Messages sent before the socket opens are queued. */
+  send(message: ClientMessage): void;
+  subscribe(listener: MultiplayerListener): () => void;
+  close(): void;
+}
+
+/** The server runs beside the app (npm run multiplayer) unless configured otherwise. */
+export function getMultiplayerUrl(): string {
+  if (process.env.NEXT_PUBLIC_MULTIPLAYER_URL) return process.env.NEXT_PUBLIC_MULTIPLAYER_URL;
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname}:${MULTIPLAYER_PORT}`;
+}
+
+export function createMultiplayerClient(url: string = getMultiplayerUrl()): MultiplayerClient {
+  const listeners = new Set<MultiplayerListener>();
+  const queue: ClientMessage[] = [];
+  const socket = new WebSocket(url);
+
+  const emit = (event: MultiplayerEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  socket.addEventListener('open', () => {
+    queue.splice(0).forEach(message => socket.send(JSON.stringify(message)));
+    emit({ type: 'connected' });
+  });
+
+  socket.addEventListener('message', e => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(e.data));
+    } catch (error) {
+      return; // Ignore malformed messages
+    }
+    emit(message);
+  });
+
+  // A failed connection fires error then close; close alone covers both
+  socket.addEventListener('close', () => emit({ type: 'disconnected' }));
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else if (socket.readyState === WebSocket.CONNECTING) {
+      queue.push(message);
+    }
+  };
+
+  const subscribe = (listener: MultiplayerListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const close = () => {
+    listeners.clear();
+    socket.close();
+  };
+
+  return { send, subscribe, close };
+}
@@ -0,0 +1,149 @@
+import {
+  createGameEngine,
+  type GameEngine,
+  type GameEngineOptions,
+  type GameEvent,
+  type GameEventListener,
+  type GameInput,
+  type GameSnapshot,
+} from './engine';
+import type { RenderOptions, RenderOverlay } from './render';
+
+// ============================================================================
+// OFFSCREEN RENDERING PROTOCOL
+// ============================================================================
+
+const OFFSCREEN_STORAGE_KEY = 'balloonOffscreenRendering';
+
+/** Main thread to worker. */
+export type WorkerRequest =
+  | { type: 'start'; canvas: OffscreenCanvas; options: GameEngineOptions; timestep: number; display: RenderOptions }
+  | { type: 'pointer'; x: number; y: number }
+  /** The screen changed size; the world the engine runs in stays as it is. */
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'end' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'overlay'; overlay: RenderOverlay; display: RenderOptions };
+
+/**
+ * Worker to main thread. Snapshots leave out particles and popups, which only
+ * the worker draws. The game over event carries the input log for the replay.
+ */
+export type WorkerMessage =
+  | { type: 'state'; state: GameSnapshot }
+  | { type: 'event'; event: GameEvent; state: GameSnapshot; inputs?: GameInput[] };
+
+/** Whether the canvas can be handed to a worker; otherwise the game draws on the main thread. */
+export function isOffscreenRenderingSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  );
+}
+
+export function loadOffscreenRendering(): boolean {
+  try {
+    return localStorage.getItem(OFFSCREEN_STORAGE_KEY) === 'true';
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return false;
+}
+
+export function saveOffscreenRendering(enabled: boolean) {
+  try {
+    localStorage.setItem(OFFSCREEN_STORAGE_KEY, String(enabled));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
+
+// ============================================================================
+// WORKER ENGINE
+// ============================================================================
+
+/**
+ * A GameEngine whose simulation and drawing run in a worker. Inputs are posted
+ * over, and getState() returns the latest snapshot the worker sent back, so
+ * the page can treat it like a local engine. step() does nothing: the worker
+ * runs its own loop.
+ */
+export interface WorkerEngine extends GameEngine {
+  pause(): void;
+  resume(): void;
+  resizeCanvas(width: number, height: number): void;
+  /** Crosshair, toasts and other page-owned extras to draw over the field. */
+  setOverlay(overlay: RenderOverlay, display: RenderOptions): void;
+  /** Stops the worker; the canvas it drew on can't be used again. */
+  dispose(): void;
+}
+
+export interface WorkerEngineSettings {
+  /** Real milliseconds per simulation step; larger slows the game down. */
+  timestep: number;
+  display: RenderOptions;
+}
+
+export function createWorkerEngine(
+  canvas: HTMLCanvasElement,
+  options: GameEngineOptions,
+  settings: WorkerEngineSettings
+): WorkerEngine {
+  // An unstepped engine matches the worker's at tick 0 and resolves the options
+  const initial = createGameEngine(options);
+  let state = initial.getState();
+  let inputs: readonly GameInput[] = [];
+
+  const listeners = new Set<GameEventListener>();
+  const worker = new Worker(new URL('./gameWorker.ts', import.meta.url));
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(request, transfer);
+  };
+
+  worker.addEventListener('message', (e: MessageEvent<WorkerMessage>) => {
+    const message = e.data;
+    state = message.state;
+    if (message.type !== 'event') return;
+
+    if (message.inputs) inputs = message.inputs;
+    listeners.forEach(listener => listener(message.event));
+  });
+
+  const offscreen = canvas.transferControlToOffscreen();
+  post(
+    { type: 'start', canvas: offscreen, options: initial.options, timestep: settings.timestep, display: settings.display },
+    [offscreen]
+  );
+
+  const subscribe = (listener: GameEventListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    seed: initial.seed,
+    options: initial.options,
+    step: () => {},
+    pointerDown: (x, y) => post({ type: 'pointer', x, y }),
+    // Online matches always run on the main thread
+    resolveClaim: () => {},
+    end: () => post({ type: 'end' }),
+    getState: () => state,
+    getInputLog: () => inputs,
+    subscribe,
+    pause: () => post({ type: 'pause' }),
+    resume: () => post({ type: 'resume' }),
+    resizeCanvas: (width, height) => post({ type: 'resize', width, height }),
+    setOverlay: (overlay, display) => post({ type: 'overlay', overlay, display }),
+    dispose: () => {
+      listeners.clear();
+      worker.terminate();
+    },
+  };
+}
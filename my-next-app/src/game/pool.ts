@@ -0,0 +1,44 @@
+// ============================================================================
+// OBJECT POOLS
+// ============================================================================
+
+// Enough for a busy field; anything past this is left to the garbage collector
+const MAX_POOLED = 4096;
+
+export interface Pool<T> {
+  /** A recycled object when one is free, otherwise a fresh one. Callers reset every field. */
+  acquire(): T;
+  release(item: T): void;
+  readonly size: number;
+}
+
+export function createPool<T>(create: () => T, maxSize: number = MAX_POOLED): Pool<T> {
+  const free: T[] = [];
+
+  return {
+    acquire: () => free.pop() ?? create(),
+    release: item => {
+      if (free.length < maxSize) free.push(item);
+    },
+    get size() {
+      return free.length;
+    },
+  };
+}
+
+/**
+ * Removes the items keep() rejects without allocating a new array, keeping
+ * the survivors in order. Removed items are handed to onRemove.
+ */
+export function compactInPlace<T>(items: T[], keep: (item: T) => boolean, onRemove?: (item: T) => void): void {
+  let write = 0;
+  for (let read = 0; read < items.length; read++) {
+    const item = items[read];
+    if (keep(item)) {
+      items[write++] = item;
+    } else {
+      onRemove?.(item);
+    }
+  }
+  items.length = write;
+}
@@ -0,0 +1,852 @@
+import type { PaletteId } from './accessibility';
+import { getBalloonColor, getBalloonType, type BalloonPattern } from './balloonTypes';
+import { BONUS_MULTIPLIER, COMBO_WINDOW, POP_FADE_DURATION, WIND_MAX_SPEED } from './config';
+import type { GameSnapshot } from './engine';
+import { MODE_CONFIGS, SURVIVAL_LIVES } from './modes';
+import { createSpriteCache } from './sprites';
+import { THEMES, type BalloonShape, type ParticleStyle, type Theme, type ThemeColors, type ThemeId } from './themes';
+import type { Balloon, BalloonType, Particle, ScorePopup } from './types';
+import { fitField } from './world';
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const TOAST_DURATION = 3000; // ms of simulated time
+const TOAST_FADE = 300;
+
+// Balloons are drawn from pre-rendered sprites; radii are rounded up to the
+// next size step so a handful of sprites covers every balloon of a color
+const SPRITE_SIZE_STEP = 4; // px
+const SPRITE_PADDING = 2; // px, room for the string's line width
+const spriteCache = createSpriteCache();
+
+// Below this the air counts as calm: no streaks, no HUD arrow
+const WIND_VISIBLE = 10; // units/s
+const WIND_STREAKS = 14;
+const WIND_STREAK_SPEED = 600; // units/s
+
+const STAR_COUNT = 90;
+const BUBBLE_COUNT = 24;
+const BUBBLE_RISE_SPEED = 40; // units/s
+
+/** A short notice drawn over the playfield, timed against the run's simulated clock. */
+export interface CanvasToast {
+  icon: string;
+  title: string;
+  text: string;
+  shownAt: number;
+}
+
+export function isToastVisible(toast: CanvasToast, now: number): boolean {
+  return now - toast.shownAt < TOAST_DURATION;
+}
+
+const TAP_RING_DURATION = 400; // ms of simulated time
+
+/** Feedback ring drawn where a pointer went down. */
+export interface TapRing {
+  x: number;
+  y: number;
+  hit: boolean;
+  shownAt: number;
+}
+
+export function isTapRingVisible(ring: TapRing, now: number): boolean {
+  return now - ring.shownAt < TAP_RING_DURATION;
+}
+
+/** One row of the live scoreboard in online matches. */
+export interface ScoreboardEntry {
+  name: string;
+  score: number;
+  color: string;
+  self: boolean;
+}
+
+/** Things drawn over the game that aren't part of the simulation. */
+export interface RenderOverlay {
+  toasts?: readonly CanvasToast[];
+  taps?: readonly TapRing[];
+  crosshair?: { x: number; y: number; target: Readonly<Balloon> | null } | null;
+  scoreboard?: readonly ScoreboardEntry[];
+}
+
+/** Runs draw in field units, with the field letterboxed into the canvas. */
+export function renderLetterboxed(
+  ctx: CanvasRenderingContext2D,
+  fieldWidth: number,
+  fieldHeight: number,
+  draw: () => void
+) {
+  const { width, height } = ctx.canvas;
+  const fit = fitField(width, height, fieldWidth, fieldHeight);
+
+  ctx.fillStyle = '#2C3E50';
+  ctx.fillRect(0, 0, width, height);
+  ctx.save();
+  ctx.translate(fit.offsetX, fit.offsetY);
+  ctx.scale(fit.scale, fit.scale);
+  ctx.beginPath();
+  ctx.rect(0, 0, fieldWidth, fieldHeight);
+  ctx.clip();
+  draw();
+  ctx.restore();
+}
+
+/** Draws the game letterboxed into a canvas of a different size. */
+export function renderFitted(
+  ctx: CanvasRenderingContext2D,
+  state: GameSnapshot,
+  alpha: number = 1,
+  overlay: RenderOverlay = {},
+  options: RenderOptions = {}
+) {
+  renderLetterboxed(ctx, state.width, state.height, () => renderGame(ctx, state, alpha, overlay, options));
+}
+
+/** Player display preferences, see accessibility settings. */
+export interface RenderOptions {
+  palette?: PaletteId;
+  /** Draws each type's high-contrast pattern over the balloon. */
+  patterns?: boolean;
+  /** No balloon spin, expanding rings or full-screen tints. */
+  reducedMotion?: boolean;
+  theme?: ThemeId;
+  /** Balloon shape from the selected skin. */
+  skin?: BalloonShape;
+}
+
+/**
+ * Draws a snapshot. alpha is the fixed-step loop's interpolation factor: moving
+ * objects are drawn between their previous and current step positions.
+ */
+export function renderGame(
+  ctx: CanvasRenderingContext2D,
+  state: GameSnapshot,
+  alpha: number = 1,
+  overlay: RenderOverlay = {},
+  options: RenderOptions = {}
+) {
+  const { width, height } = state;
+  const theme = THEMES[options.theme ?? 'sky'];
+
+  // Clear canvas
+  ctx.clearRect(0, 0, width, height);
+
+  drawBackground(ctx, theme, state, options.reducedMotion ?? false);
+  if (!options.reducedMotion) drawWindStreaks(ctx, state);
+
+  // Draw balloons
+  state.balloons.forEach(balloon => drawBalloon(ctx, balloon, state.now, alpha, options));
+
+  // Draw particles
+  state.particles.forEach(particle => drawParticle(ctx, particle, alpha, theme.particles));
+
+  // Frosty tint while balloons are frozen (the HUD status covers reduced motion)
+  if (state.now < state.freezeEndTime && !options.reducedMotion) {
+    ctx.fillStyle = 'rgba(116, 208, 241, 0.15)';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // Draw score popups
+  const popupFontSize = Math.max(16, Math.min(width, height) * 0.035);
+  state.popups.forEach(popup => drawPopup(ctx, popup, popupFontSize, alpha, theme.ui));
+
+  // Draw UI
+  drawUI(ctx, state, theme.ui);
+  if (overlay.scoreboard) drawScoreboard(ctx, overlay.scoreboard, state, theme.ui);
+
+  const ringSize = Math.min(width, height) * 0.04;
+  overlay.taps?.forEach(ring => drawTapRing(ctx, ring, state.now, ringSize, options.reducedMotion ?? false));
+  if (overlay.crosshair) drawCrosshair(ctx, overlay.crosshair, state, alpha);
+
+  // Toasts stack upwards from the bottom edge, newest lowest
+  (overlay.toasts ?? [])
+    .filter(toast => isToastVisible(toast, state.now))
+    .forEach((toast, i, visible) => drawToast(ctx, toast, state, visible.length - 1 - i));
+}
+
+/** One player's half of a versus match. */
+export interface VersusLane {
+  state: GameSnapshot;
+  label: string;
+  color: string;
+  leading: boolean;
+  crosshair?: RenderOverlay['crosshair'];
+}
+
+/** Draws each lane side by side, clipped to its half, with taps on top in canvas space. */
+export function renderVersus(
+  ctx: CanvasRenderingContext2D,
+  lanes: readonly VersusLane[],
+  laneWidth: number,
+  alpha: number = 1,
+  overlay: Pick<RenderOverlay, 'taps'> = {},
+  options: RenderOptions = {}
+) {
+  const height = lanes[0]?.state.height ?? 0;
+
+  lanes.forEach((lane, i) => {
+    ctx.save();
+    ctx.translate(i * laneWidth, 0);
+    ctx.beginPath();
+    ctx.rect(0, 0, laneWidth, height);
+    ctx.clip();
+    renderGame(ctx, lane.state, alpha, { crosshair: lane.crosshair }, options);
+
+    // Player tag along the bottom edge
+    const fontSize = Math.max(14, Math.min(laneWidth, height) * 0.04);
+    const text = `${lane.leading ? '👑 ' : ''}${lane.label}`;
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = THEMES[options.theme ?? 'sky'].ui.outline;
+    ctx.lineWidth = Math.max(3, fontSize * 0.15);
+    ctx.strokeText(text, laneWidth / 2, height - fontSize);
+    ctx.fillStyle = lane.color;
+    ctx.fillText(text, laneWidth / 2, height - fontSize);
+
+    ctx.strokeStyle = lane.color;
+    ctx.lineWidth = Math.max(4, fontSize * 0.25);
+    ctx.strokeRect(0, 0, laneWidth, height);
+    ctx.restore();
+  });
+
+  const now = lanes[0]?.state.now ?? 0;
+  const ringSize = Math.min(laneWidth, height) * 0.04;
+  overlay.taps?.forEach(ring => drawTapRing(ctx, ring, now, ringSize, options.reducedMotion ?? false));
+}
+
+function drawBalloon(
+  ctx: CanvasRenderingContext2D,
+  balloon: Readonly<Balloon>,
+  now: number,
+  alpha: number,
+  options: RenderOptions
+) {
+  if (balloon.popped) {
+    // Fade out animation
+    const fadeProgress = Math.min(1, (now - (balloon.popTime || 0)) / POP_FADE_DURATION);
+    ctx.globalAlpha = 1 - fadeProgress;
+  }
+
+  ctx.save();
+  ctx.translate(lerp(balloon.prevX, balloon.x, alpha), lerp(balloon.prevY, balloon.y, alpha));
+  if (!options.reducedMotion) ctx.rotate(lerp(balloon.prevRotation, balloon.rotation, alpha));
+
+  const color = getBalloonColor(balloon, options.palette, options.theme);
+  const patterns = options.patterns ?? false;
+  const shape = options.skin ?? 'classic';
+  // Sprites are sized in screen pixels so a letterboxed world stays sharp
+  const transform = ctx.getTransform();
+  const pixelRatio = Math.hypot(transform.a, transform.b) || 1;
+  const radius = balloon.radius * pixelRatio;
+  const size = Math.max(SPRITE_SIZE_STEP, Math.ceil(radius / SPRITE_SIZE_STEP) * SPRITE_SIZE_STEP);
+  const origin = size + SPRITE_PADDING;
+  const sprite = spriteCache.get(
+    `balloon|${balloon.type}|${shape}|${color}|${size}|${patterns}`,
+    origin * 2,
+    size * 3 + SPRITE_PADDING * 2,
+    spriteCtx => {
+      spriteCtx.translate(origin, origin);
+      drawBalloonBody(spriteCtx, balloon.type, shape, color, size, patterns);
+    }
+  );
+
+  if (sprite) {
+    const scale = balloon.radius / size;
+    ctx.drawImage(sprite, -origin * scale, -origin * scale, sprite.width * scale, sprite.height * scale);
+  } else {
+    drawBalloonBody(ctx, balloon.type, shape, color, balloon.radius, patterns);
+  }
+
+  ctx.restore();
+  ctx.globalAlpha = 1;
+}
+
+// Body, pattern, highlight, string and icon, centred on the origin
+function drawBalloonBody(
+  ctx: CanvasRenderingContext2D,
+  type: BalloonType,
+  shape: BalloonShape,
+  color: string,
+  radius: number,
+  patterns: boolean
+) {
+  const definition = getBalloonType(type);
+
+  // Balloon gradient
+  const gradient = ctx.createRadialGradient(-radius * 0.3, -radius * 0.3, radius * 0.1, 0, 0, radius);
+  gradient.addColorStop(0, color);
+  gradient.addColorStop(0.7, color);
+  gradient.addColorStop(1, adjustBrightness(color, -30));
+
+  ctx.fillStyle = gradient;
+  traceBalloonShape(ctx, shape, radius);
+  ctx.fill();
+
+  if (patterns) drawPattern(ctx, definition.pattern, shape, radius);
+
+  // Highlight
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.beginPath();
+  ctx.ellipse(-radius * 0.25, -radius * 0.25, radius * 0.3, radius * 0.2, -Math.PI / 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  // String, tied on at the bottom of the shape
+  const knot = shape === 'star' ? radius * STAR_INNER_RADIUS : radius;
+  ctx.strokeStyle = '#666';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, knot);
+  ctx.quadraticCurveTo(radius * 0.2, (knot + radius * 2) / 2, radius * 0.1, radius * 2);
+  ctx.stroke();
+
+  // Type indicator - scale font size with balloon
+  ctx.font = `${radius * 0.8}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (definition.drawIcon) {
+    definition.drawIcon(ctx, radius);
+  } else if (definition.icon) {
+    ctx.fillText(definition.icon, 0, 0);
+  }
+  ctx.textBaseline = 'alphabetic';
+}
+
+const STAR_INNER_RADIUS = 0.5; // of the outer radius
+
+// Outline of a balloon body centred on the origin, within the balloon's radius
+function traceBalloonShape(ctx: CanvasRenderingContext2D, shape: BalloonShape, radius: number) {
+  ctx.beginPath();
+  switch (shape) {
+    case 'heart':
+      ctx.moveTo(0, radius);
+      ctx.bezierCurveTo(-radius * 0.2, radius * 0.75, -radius * 1.05, radius * 0.25, -radius, -radius * 0.3);
+      ctx.bezierCurveTo(-radius * 0.95, -radius * 0.95, -radius * 0.15, -radius * 1.05, 0, -radius * 0.5);
+      ctx.bezierCurveTo(radius * 0.15, -radius * 1.05, radius * 0.95, -radius * 0.95, radius, -radius * 0.3);
+      ctx.bezierCurveTo(radius * 1.05, radius * 0.25, radius * 0.2, radius * 0.75, 0, radius);
+      break;
+    case 'star':
+      for (let i = 0; i < 10; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const r = i % 2 === 0 ? radius : radius * STAR_INNER_RADIUS;
+        ctx.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+      }
+      break;
+    default:
+      ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  }
+  ctx.closePath();
+}
+
+// Gradient sky plus the theme's scenery, which drifts with the run's clock
+function drawBackground(ctx: CanvasRenderingContext2D, theme: Theme, state: GameSnapshot, reducedMotion: boolean) {
+  const { width, height } = state;
+  const size = Math.min(width, height);
+  const time = reducedMotion ? 0 : state.now / 1000;
+
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, theme.background[0]);
+  gradient.addColorStop(1, theme.background[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  if (theme.scenery === 'sun') {
+    const x = width * 0.75;
+    const y = height * 0.85;
+    const glow = ctx.createRadialGradient(x, y, size * 0.12, x, y, size * 0.45);
+    glow.addColorStop(0, 'rgba(255, 236, 179, 0.6)');
+    glow.addColorStop(1, 'rgba(255, 236, 179, 0)');
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#FFE29A';
+    ctx.beginPath();
+    ctx.arc(x, y, size * 0.12, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (theme.scenery === 'stars' || theme.scenery === 'planet') {
+    ctx.fillStyle = '#fff';
+    for (let i = 0; i < STAR_COUNT; i++) {
+      const starSize = Math.max(1, size * (i % 4 === 0 ? 0.005 : 0.003));
+      ctx.globalAlpha = 0.5 + 0.4 * Math.sin(time * (1 + (i % 5) * 0.3) + i);
+      ctx.fillRect(scatterX(i) * width, scatterY(i) * height, starSize, starSize);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  if (theme.scenery === 'planet') {
+    const x = width * 0.2;
+    const y = height * 0.3;
+    const radius = size * 0.1;
+    const planet = ctx.createRadialGradient(x - radius * 0.4, y - radius * 0.4, radius * 0.1, x, y, radius);
+    planet.addColorStop(0, '#F8C471');
+    planet.addColorStop(1, '#A04000');
+    ctx.fillStyle = planet;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(250, 215, 160, 0.8)';
+    ctx.lineWidth = Math.max(2, radius * 0.12);
+    ctx.beginPath();
+    ctx.ellipse(x, y, radius * 1.7, radius * 0.45, -0.3, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  if (theme.scenery === 'bubbles') {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.lineWidth = Math.max(1, size * 0.003);
+    ctx.beginPath();
+    for (let i = 0; i < BUBBLE_COUNT; i++) {
+      const radius = size * (0.008 + scatterX(i + STAR_COUNT) * 0.02);
+      const span = height + radius * 2;
+      const rise = time * BUBBLE_RISE_SPEED * (0.6 + (i % 3) * 0.3) + scatterY(i) * span;
+      const x = scatterX(i) * width + Math.sin(time + i) * radius;
+      const y = height + radius - (rise % span);
+      ctx.moveTo(x + radius, y);
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+    }
+    ctx.stroke();
+  }
+}
+
+// Evenly spread pseudo-random positions (the R2 sequence), stable between frames
+function scatterX(i: number): number {
+  return (0.5 + i * 0.7548776662) % 1;
+}
+
+function scatterY(i: number): number {
+  return (0.5 + i * 0.569840291) % 1;
+}
+
+// Streaks race across the sky with the wind, fading in as it picks up
+function drawWindStreaks(ctx: CanvasRenderingContext2D, state: GameSnapshot) {
+  if (Math.abs(state.wind) < WIND_VISIBLE) return;
+
+  const { width, height } = state;
+  const length = width * 0.08;
+  const span = width + length;
+  const travel = (state.now / 1000) * WIND_STREAK_SPEED * Math.sign(state.wind);
+
+  ctx.strokeStyle = `rgba(255, 255, 255, ${0.6 * Math.min(1, Math.abs(state.wind) / WIND_MAX_SPEED)})`;
+  ctx.lineWidth = Math.max(1, height * 0.003);
+  ctx.beginPath();
+  for (let i = 0; i < WIND_STREAKS; i++) {
+    // Spread the streaks over the sky, each at its own pace
+    const y = ((i * 0.618 + 0.05) % 1) * height;
+    const offset = travel * (1 + (i % 3) * 0.25) + i * span * 0.37;
+    const x = (((offset % span) + span) % span) - length;
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + length, y);
+  }
+  ctx.stroke();
+}
+
+// Particles are drawn from a per-style, per-color sprite, scaled to size
+const PARTICLE_SPRITE_RADIUS = 8; // px
+
+function drawParticle(
+  ctx: CanvasRenderingContext2D,
+  particle: Readonly<Particle>,
+  alpha: number,
+  style: ParticleStyle
+) {
+  const x = lerp(particle.prevX, particle.x, alpha);
+  const y = lerp(particle.prevY, particle.y, alpha);
+  ctx.globalAlpha = particle.life / particle.maxLife;
+
+  const diameter = PARTICLE_SPRITE_RADIUS * 2;
+  const sprite = spriteCache.get(`particle|${style}|${particle.color}`, diameter, diameter, spriteCtx => {
+    spriteCtx.translate(PARTICLE_SPRITE_RADIUS, PARTICLE_SPRITE_RADIUS);
+    drawParticleShape(spriteCtx, style, particle.color, PARTICLE_SPRITE_RADIUS);
+  });
+
+  if (sprite) {
+    ctx.drawImage(sprite, x - particle.size, y - particle.size, particle.size * 2, particle.size * 2);
+  } else {
+    ctx.save();
+    ctx.translate(x, y);
+    drawParticleShape(ctx, style, particle.color, particle.size);
+    ctx.restore();
+  }
+  ctx.globalAlpha = 1;
+}
+
+function drawParticleShape(ctx: CanvasRenderingContext2D, style: ParticleStyle, color: string, radius: number) {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  switch (style) {
+    case 'sparkles':
+      // Four-pointed twinkle
+      for (let i = 0; i < 8; i++) {
+        const angle = (i * Math.PI) / 4;
+        const r = i % 2 === 0 ? radius : radius * 0.3;
+        ctx.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+      }
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'bubbles': {
+      const lineWidth = Math.max(1, radius * 0.25);
+      ctx.arc(0, 0, radius - lineWidth / 2, 0, Math.PI * 2);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+      break;
+    }
+    default:
+      ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      ctx.fill();
+  }
+}
+
+function drawPopup(
+  ctx: CanvasRenderingContext2D,
+  popup: Readonly<ScorePopup>,
+  fontSize: number,
+  alpha: number,
+  ui: ThemeColors
+) {
+  const y = lerp(popup.prevY, popup.y, alpha);
+  ctx.globalAlpha = Math.max(0, popup.life / popup.maxLife);
+  ctx.font = `bold ${fontSize}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.strokeStyle = ui.outline;
+  ctx.lineWidth = Math.max(3, fontSize * 0.15);
+  ctx.strokeText(popup.text, popup.x, y);
+  ctx.fillStyle = adjustBrightness(popup.color, ui.popupShade);
+  ctx.fillText(popup.text, popup.x, y);
+  ctx.textBaseline = 'alphabetic';
+  ctx.globalAlpha = 1;
+}
+
+function drawUI(ctx: CanvasRenderingContext2D, state: GameSnapshot, ui: ThemeColors) {
+  const { width, height } = state;
+
+  // Responsive font sizing based on canvas dimensions
+  const baseFontSize = Math.min(width, height) * 0.035;
+  const fontSize = Math.max(16, Math.min(baseFontSize, 40));
+  const padding = Math.max(10, width * 0.02);
+
+  // Score
+  ctx.font = `bold ${fontSize * 1.5}px Arial`;
+  ctx.fillStyle = ui.text;
+  ctx.strokeStyle = ui.outline;
+  ctx.lineWidth = Math.max(3, fontSize * 0.15);
+  ctx.textAlign = 'left';
+  ctx.strokeText(`Score: ${state.score}`, padding, fontSize * 2);
+  ctx.fillText(`Score: ${state.score}`, padding, fontSize * 2);
+
+  // Status indicators (bonus, freeze, shield), stacked under the score
+  const statuses: { text: string; color: string }[] = [];
+  const bonusTimeLeft = state.bonusEndTime - state.now;
+  if (bonusTimeLeft > 0) {
+    statuses.push({ text: `✨ BONUS x${BONUS_MULTIPLIER} (${Math.ceil(bonusTimeLeft / 1000)}s)`, color: '#FFC107' });
+  }
+  const freezeTimeLeft = state.freezeEndTime - state.now;
+  if (freezeTimeLeft > 0) {
+    statuses.push({ text: `❄️ FREEZE (${Math.ceil(freezeTimeLeft / 1000)}s)`, color: '#2E86C1' });
+  }
+  if (state.shieldActive) {
+    statuses.push({ text: '🛡️ SHIELD', color: '#8E44AD' });
+  }
+
+  ctx.font = `bold ${fontSize}px Arial`;
+  ctx.strokeStyle = ui.outline;
+  ctx.lineWidth = Math.max(2, fontSize * 0.1);
+  statuses.forEach((status, i) => {
+    const y = fontSize * (3.5 + i * 1.4);
+    ctx.fillStyle = status.color;
+    ctx.strokeText(status.text, padding, y);
+    ctx.fillText(status.text, padding, y);
+  });
+
+  // Combo meter: label plus a bar draining until the combo lapses
+  if (state.combo >= 2) {
+    const comboY = fontSize * (3.5 + statuses.length * 1.4);
+    const comboText = `🔥 COMBO ${state.combo}${state.comboMultiplier > 1 ? ` · x${state.comboMultiplier}` : ''}`;
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.fillStyle = '#E67E22';
+    ctx.strokeStyle = ui.outline;
+    ctx.lineWidth = Math.max(2, fontSize * 0.1);
+    ctx.textAlign = 'left';
+    ctx.strokeText(comboText, padding, comboY);
+    ctx.fillText(comboText, padding, comboY);
+
+    const barWidth = fontSize * 8;
+    const remaining = Math.max(0, Math.min(1, (state.comboExpiresAt - state.now) / COMBO_WINDOW));
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillRect(padding, comboY + fontSize * 0.4, barWidth, fontSize * 0.3);
+    ctx.fillStyle = '#E67E22';
+    ctx.fillRect(padding, comboY + fontSize * 0.4, barWidth * remaining, fontSize * 0.3);
+  }
+
+  // Wind indicator, one arrow per third of a full gust
+  if (Math.abs(state.wind) >= WIND_VISIBLE) {
+    const arrows = Math.ceil(Math.min(1, Math.abs(state.wind) / WIND_MAX_SPEED) * 3);
+    const windText = state.wind > 0 ? `💨 ${'→'.repeat(arrows)}` : `${'←'.repeat(arrows)} 💨`;
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.fillStyle = ui.label;
+    ctx.strokeStyle = ui.outline;
+    ctx.lineWidth = Math.max(2, fontSize * 0.1);
+    ctx.textAlign = 'center';
+    ctx.strokeText(windText, width / 2, fontSize * 1.5);
+    ctx.fillText(windText, width / 2, fontSize * 1.5);
+  }
+
+  // Mode & difficulty
+  const difficultyLabel = state.custom ? 'CUSTOM' : state.difficulty.toUpperCase();
+  const label = state.mode === 'classic'
+    ? difficultyLabel
+    : `${MODE_CONFIGS[state.mode].label.toUpperCase()} · ${difficultyLabel}`;
+  ctx.font = `${fontSize * 0.8}px Arial`;
+  ctx.fillStyle = ui.label;
+  ctx.textAlign = 'right';
+  ctx.fillText(label, width - padding, fontSize * 1.5);
+
+  // Mode-specific status (timer, lives...)
+  const status = getModeStatus(state, ui);
+  if (status) {
+    ctx.font = `bold ${fontSize * 1.2}px Arial`;
+    ctx.fillStyle = status.color;
+    ctx.strokeStyle = ui.outline;
+    ctx.lineWidth = Math.max(3, fontSize * 0.15);
+    ctx.strokeText(status.text, width - padding, fontSize * 3);
+    ctx.fillText(status.text, width - padding, fontSize * 3);
+  }
+}
+
+// Everyone's score, best first, under the timer on the right
+function drawScoreboard(
+  ctx: CanvasRenderingContext2D,
+  entries: readonly ScoreboardEntry[],
+  state: GameSnapshot,
+  ui: ThemeColors
+) {
+  const { width, height } = state;
+  const fontSize = Math.max(16, Math.min(Math.min(width, height) * 0.035, 40));
+  const padding = Math.max(10, width * 0.02);
+
+  ctx.textAlign = 'right';
+  ctx.strokeStyle = ui.outline;
+  ctx.lineWidth = Math.max(2, fontSize * 0.1);
+  entries.forEach((entry, i) => {
+    const text = `${i === 0 && entry.score > 0 ? '👑 ' : ''}${entry.name}${entry.self ? ' (you)' : ''}: ${entry.score}`;
+    const y = fontSize * (4.5 + i * 1.3);
+    ctx.font = `${entry.self ? 'bold ' : ''}${fontSize * 0.9}px Arial`;
+    ctx.fillStyle = entry.color;
+    ctx.strokeText(text, width - padding, y);
+    ctx.fillText(text, width - padding, y);
+  });
+}
+
+// Two passes, black under white, so the pattern reads on any body color
+function drawPattern(ctx: CanvasRenderingContext2D, pattern: BalloonPattern, shape: BalloonShape, radius: number) {
+  if (pattern === 'none') return;
+
+  ctx.save();
+  traceBalloonShape(ctx, shape, radius);
+  ctx.clip();
+
+  const spacing = radius * 0.4;
+  const path = new Path2D();
+  switch (pattern) {
+    case 'stripes':
+      for (let y = -radius; y <= radius; y += spacing) {
+        path.moveTo(-radius, y);
+        path.lineTo(radius, y);
+      }
+      break;
+    case 'diagonal':
+      for (let offset = -radius * 2; offset <= radius * 2; offset += spacing) {
+        path.moveTo(offset - radius, -radius);
+        path.lineTo(offset + radius, radius);
+      }
+      break;
+    case 'grid':
+      for (let offset = -radius; offset <= radius; offset += spacing) {
+        path.moveTo(-radius, offset);
+        path.lineTo(radius, offset);
+        path.moveTo(offset, -radius);
+        path.lineTo(offset, radius);
+      }
+      break;
+    case 'zigzag':
+      for (let y = -radius; y <= radius; y += spacing) {
+        path.moveTo(-radius, y);
+        for (let x = -radius; x <= radius; x += spacing / 2) {
+          path.lineTo(x, y + (Math.round((x + radius) / (spacing / 2)) % 2 === 0 ? 0 : spacing / 2));
+        }
+      }
+      break;
+    case 'rings':
+      for (let r = spacing / 2; r < radius; r += spacing) {
+        path.moveTo(r, 0);
+        path.arc(0, 0, r, 0, Math.PI * 2);
+      }
+      break;
+    case 'dots':
+      for (let y = -radius; y <= radius; y += spacing) {
+        for (let x = -radius; x <= radius; x += spacing) {
+          path.moveTo(x + spacing * 0.12, y);
+          path.arc(x, y, spacing * 0.12, 0, Math.PI * 2);
+        }
+      }
+      break;
+    case 'checks':
+      for (let y = -radius; y <= radius; y += spacing) {
+        for (let x = -radius; x <= radius; x += spacing) {
+          if (Math.round((x + y + radius * 2) / spacing) % 2 === 0) path.rect(x, y, spacing, spacing);
+        }
+      }
+      break;
+  }
+
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = radius * 0.12;
+  ctx.stroke(path);
+  if (pattern === 'dots' || pattern === 'checks') {
+    ctx.fillStyle = '#fff';
+    ctx.fill(path);
+  } else {
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = radius * 0.05;
+    ctx.stroke(path);
+  }
+  ctx.restore();
+
+  // Solid outline so the silhouette stands out from the sky
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = Math.max(2, radius * 0.08);
+  traceBalloonShape(ctx, shape, radius);
+  ctx.stroke();
+}
+
+function drawTapRing(ctx: CanvasRenderingContext2D, ring: TapRing, now: number, size: number, reducedMotion: boolean) {
+  const progress = (now - ring.shownAt) / TAP_RING_DURATION;
+  if (progress < 0 || progress >= 1) return;
+
+  ctx.globalAlpha = 1 - progress;
+  ctx.strokeStyle = ring.hit ? '#fff' : '#E74C3C';
+  ctx.lineWidth = Math.max(2, size * 0.12);
+  ctx.beginPath();
+  ctx.arc(ring.x, ring.y, size * (reducedMotion ? 0.8 : 0.4 + progress), 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+function drawCrosshair(
+  ctx: CanvasRenderingContext2D,
+  crosshair: NonNullable<RenderOverlay['crosshair']>,
+  state: GameSnapshot,
+  alpha: number
+) {
+  const size = Math.max(12, Math.min(state.width, state.height) * 0.025);
+
+  // Aim assist: ring the balloon a pop would snap to
+  if (crosshair.target) {
+    const { target } = crosshair;
+    ctx.strokeStyle = 'rgba(241, 196, 15, 0.9)';
+    ctx.lineWidth = Math.max(2, size * 0.15);
+    ctx.setLineDash([size * 0.4, size * 0.3]);
+    ctx.beginPath();
+    ctx.arc(lerp(target.prevX, target.x, alpha), lerp(target.prevY, target.y, alpha), target.radius * 1.15, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  // Dark cross over a white outline so it reads on any background
+  [{ color: '#fff', width: Math.max(4, size * 0.3) }, { color: '#2C3E50', width: Math.max(2, size * 0.12) }].forEach(pass => {
+    ctx.strokeStyle = pass.color;
+    ctx.lineWidth = pass.width;
+    ctx.beginPath();
+    ctx.arc(crosshair.x, crosshair.y, size * 0.6, 0, Math.PI * 2);
+    ctx.moveTo(crosshair.x - size, crosshair.y);
+    ctx.lineTo(crosshair.x - size * 0.3, crosshair.y);
+    ctx.moveTo(crosshair.x + size * 0.3, crosshair.y);
+    ctx.lineTo(crosshair.x + size, crosshair.y);
+    ctx.moveTo(crosshair.x, crosshair.y - size);
+    ctx.lineTo(crosshair.x, crosshair.y - size * 0.3);
+    ctx.moveTo(crosshair.x, crosshair.y + size * 0.3);
+    ctx.lineTo(crosshair.x, crosshair.y + size);
+    ctx.stroke();
+  });
+}
+
+function drawToast(ctx: CanvasRenderingContext2D, toast: CanvasToast, state: GameSnapshot, slot: number) {
+  const { width, height } = state;
+  const fontSize = Math.max(14, Math.min(Math.min(width, height) * 0.03, 32));
+  const boxWidth = Math.min(width * 0.9, fontSize * 18);
+  const boxHeight = fontSize * 3;
+  const x = (width - boxWidth) / 2;
+  const y = height - (boxHeight + fontSize) * (slot + 1);
+
+  const age = state.now - toast.shownAt;
+  ctx.globalAlpha = Math.max(0, Math.min(1, age / TOAST_FADE, (TOAST_DURATION - age) / TOAST_FADE));
+
+  ctx.fillStyle = 'rgba(44, 62, 80, 0.9)';
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, fontSize * 0.5);
+  ctx.fill();
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  ctx.font = `${fontSize * 1.6}px Arial`;
+  ctx.fillText(toast.icon, x + fontSize * 1.6, y + boxHeight / 2);
+
+  ctx.textAlign = 'left';
+  ctx.font = `bold ${fontSize}px Arial`;
+  ctx.fillStyle = '#F1C40F';
+  ctx.fillText(toast.title, x + fontSize * 3, y + boxHeight * 0.33);
+  ctx.font = `${fontSize * 0.8}px Arial`;
+  ctx.fillStyle = '#fff';
+  ctx.fillText(toast.text, x + fontSize * 3, y + boxHeight * 0.68, boxWidth - fontSize * 3.5);
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.globalAlpha = 1;
+}
+
+function getModeStatus(state: GameSnapshot, ui: ThemeColors): { text: string; color: string } | null {
+  switch (state.mode) {
+    case 'timeAttack': {
+      const timeLeft = state.timeLeft ?? 0;
+      return {
+        text: `⏱ ${formatSeconds(timeLeft)}`,
+        color: timeLeft < 10000 ? '#E74C3C' : ui.text,
+      };
+    }
+    case 'survival':
+      return {
+        text: '❤️'.repeat(Math.max(0, state.lives)) + '🤍'.repeat(Math.max(0, SURVIVAL_LIVES - state.lives)),
+        color: '#E74C3C',
+      };
+    case 'zen':
+      return { text: `🧘 ${formatSeconds(state.elapsed)}`, color: '#16A085' };
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function formatSeconds(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function adjustBrightness(color: string, amount: number): string {
+  const num = parseInt(color.replace('#', ''), 16);
+  const r = Math.max(0, Math.min(255, (num >> 16) + amount));
+  const g = Math.max(0, Math.min(255, ((num >> 8) & 0x00FF) + amount));
+  const b = Math.max(0, Math.min(255, (num & 0x0000FF) + amount));
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+}
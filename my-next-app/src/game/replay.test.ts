@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createGameEngine } from './engine';
+import { FIXED_TIMESTEP } from './loop';
+import { createReplay, parseReplay, serializeReplay, type Replay } from './replay';
+import { RunVerificationError, verifyReplay } from './verify';
+import { LANDSCAPE_WORLD } from './world';
+
+// A classic run on preset rules that taps every balloon until it hits a bomb
+function recordBombRun(): Replay {
+  const engine = createGameEngine({ difficulty: 'hard', ...LANDSCAPE_WORLD, seed: 777 });
+  while (engine.getState().status === 'playing') {
+    engine.step(FIXED_TIMESTEP);
+    const state = engine.getState();
+    const target = state.balloons.find(balloon => !balloon.popped && balloon.y < state.height - balloon.radius);
+    if (target) engine.pointerDown(target.x, target.y);
+  }
+  return createReplay(engine);
+}
+
+describe('parseReplay', () => {
+  test('round-trips a recorded run', () => {
+    const replay = recordBombRun();
+    assert.deepEqual(parseReplay(serializeReplay(replay)), replay);
+  });
+
+  test('rejects fields other than the standard worlds', () => {
+    const replay = { ...recordBombRun(), width: 2560, height: 1440 };
+    assert.throws(() => parseReplay(serializeReplay(replay)), /invalid field size/);
+  });
+
+  test('rejects resize inputs', () => {
+    const replay = recordBombRun();
+    const tampered = { ...replay, inputs: [{ tick: 0, type: 'resize', width: 2560, height: 1440 }, ...replay.inputs] };
+    assert.throws(() => parseReplay(JSON.stringify(tampered)), /malformed inputs/);
+  });
+
+  test('rejects Time Attack lengths the menu does not offer', () => {
+    const replay = { ...recordBombRun(), mode: 'timeAttack', timeLimit: 100000 };
+    assert.throws(() => parseReplay(JSON.stringify(replay)), /invalid time limit/);
+  });
+
+  test('rejects game speeds the settings do not offer', () => {
+    const replay = { ...recordBombRun(), gameSpeed: 0.1 };
+    assert.throws(() => parseReplay(serializeReplay(replay)), /invalid game speed/);
+  });
+});
+
+describe('verifyReplay', () => {
+  test('accepts a genuine run', () => {
+    const replay = recordBombRun();
+    assert.equal(verifyReplay(replay).score, replay.score);
+  });
+
+  test('rejects a run played on an enlarged field', () => {
+    const replay = { ...recordBombRun(), width: 2560, height: 1440 };
+    assert.throws(() => verifyReplay(replay), RunVerificationError);
+  });
+
+  test('rejects a Time Attack run with a non-standard length', () => {
+    const replay: Replay = { ...recordBombRun(), mode: 'timeAttack', timeLimit: 100000 };
+    assert.throws(() => verifyReplay(replay), /non-standard time limit/);
+  });
+
+  test('keeps assisted runs off the ranked boards', () => {
+    const replay = recordBombRun();
+    assert.throws(() => verifyReplay({ ...replay, gameSpeed: 0.5 }), /Assisted runs/);
+    assert.throws(() => verifyReplay({ ...replay, hitTolerance: 0.2 }), /Assisted runs/);
+    assert.throws(() => verifyReplay({ ...replay, aimAssist: true }), /Assisted runs/);
+  });
+});
@@ -0,0 +1,248 @@
+import { GAME_SPEEDS, type RunAssists } from './accessibility';
+import { DIFFICULTIES, MAX_HIT_TOLERANCE } from './config';
+import { isValidDifficultyConfig } from './customDifficulty';
+import { createGameEngine, type GameEngine, type GameEngineOptions, type GameInput } from './engine';
+import { FIXED_TIMESTEP } from './loop';
+import { DEFAULT_TIME_LIMIT, GAME_MODES, TIME_ATTACK_DURATIONS } from './modes';
+import type { Difficulty, DifficultyConfig, GameMode } from './types';
+import { isWorldSize } from './world';
+
+// ============================================================================
+// REPLAY FORMAT
+// ============================================================================
+
+// Bumped whenever the simulation changes, since older inputs no longer reproduce
+export const REPLAY_VERSION = 2;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+/**
+ * A run is fully described by its seed, rules, world size and the
+ * inputs it received: re-simulating with the same fixed timestep reproduces it.
+ */
+export interface Replay {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  timeLimit: number;
+  hitTolerance: number;
+  /** Real-time speed the run was played at; it doesn't change the simulation. */
+  gameSpeed: number;
+  /** Whether the crosshair snapped to nearby balloons; it's applied before inputs are recorded. */
+  aimAssist: boolean;
+  /** Custom difficulty rules, null for preset difficulties. */
+  config: DifficultyConfig | null;
+  width: number;
+  height: number;
+  timestep: number;
+  /** Number of simulation steps the run lasted. */
+  ticks: number;
+  score: number;
+  inputs: GameInput[];
+  recordedAt: string;
+}
+
+export function createReplay(
+  engine: GameEngine,
+  assists: Pick<RunAssists, 'gameSpeed' | 'aimAssist'> = { gameSpeed: 1, aimAssist: false }
+): Replay {
+  const state = engine.getState();
+  return {
+    version: REPLAY_VERSION,
+    seed: engine.seed,
+    difficulty: engine.options.difficulty,
+    mode: engine.options.mode,
+    timeLimit: engine.options.timeLimit,
+    hitTolerance: engine.options.hitTolerance,
+    gameSpeed: assists.gameSpeed,
+    aimAssist: assists.aimAssist,
+    config: engine.options.config,
+    width: engine.options.width,
+    height: engine.options.height,
+    timestep: FIXED_TIMESTEP,
+    ticks: state.tick,
+    score: state.score,
+    inputs: engine.getInputLog().map(input => ({ ...input })),
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/** Parses and validates replay JSON, throwing an Error describing the first problem found. */
+export function parseReplay(json: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data.version}`);
+  if (!isFiniteNumber(data.seed)) throw new Error('Replay is missing its seed');
+  if (!isOneOf(DIFFICULTIES, data.difficulty)) throw new Error(`Unknown difficulty: ${data.difficulty}`);
+  if (data.mode !== undefined && !isOneOf(GAME_MODES, data.mode)) throw new Error(`Unknown mode: ${data.mode}`);
+  // Longer rounds score more, so only the lengths the menu offers are accepted
+  if (data.mode === 'timeAttack' && data.timeLimit !== undefined && !isOneOf(TIME_ATTACK_DURATIONS, data.timeLimit)) {
+    throw new Error('Replay has an invalid time limit');
+  }
+  if (data.hitTolerance !== undefined && !isValidHitTolerance(data.hitTolerance)) {
+    throw new Error('Replay has an invalid hit tolerance');
+  }
+  if (data.gameSpeed !== undefined && !isOneOf(GAME_SPEEDS, data.gameSpeed)) {
+    throw new Error('Replay has an invalid game speed');
+  }
+  if (data.aimAssist !== undefined && typeof data.aimAssist !== 'boolean') {
+    throw new Error('Replay has an invalid aim assist setting');
+  }
+  if (data.config != null && !isValidDifficultyConfig(data.config)) {
+    throw new Error('Replay has invalid custom difficulty rules');
+  }
+  // Balloon size follows the field, so only the standard worlds are accepted
+  if (!isPositive(data.width) || !isPositive(data.height) || !isWorldSize(data.width, data.height)) {
+    throw new Error('Replay has an invalid field size');
+  }
+  if (!isPositive(data.timestep)) throw new Error('Replay has an invalid timestep');
+  if (!isCount(data.ticks)) throw new Error('Replay has an invalid length');
+  if (!Array.isArray(data.inputs) || !data.inputs.every(isValidInput)) {
+    throw new Error('Replay has malformed inputs');
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    seed: data.seed >>> 0,
+    difficulty: data.difficulty,
+    mode: isOneOf(GAME_MODES, data.mode) ? data.mode : 'classic',
+    timeLimit: isPositive(data.timeLimit) ? data.timeLimit : DEFAULT_TIME_LIMIT,
+    hitTolerance: isValidHitTolerance(data.hitTolerance) ? data.hitTolerance : 0,
+    gameSpeed: isOneOf(GAME_SPEEDS, data.gameSpeed) ? data.gameSpeed : 1,
+    aimAssist: data.aimAssist === true,
+    config: isValidDifficultyConfig(data.config) ? data.config : null,
+    width: data.width,
+    height: data.height,
+    timestep: data.timestep,
+    ticks: data.ticks,
+    score: isFiniteNumber(data.score) ? data.score : 0,
+    inputs: data.inputs,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOneOf<T>(options: readonly T[], value: unknown): value is T {
+  return options.includes(value as T);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function isCount(value: unknown): value is number {
+  return isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+}
+
+function isValidHitTolerance(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0 && value <= MAX_HIT_TOLERANCE;
+}
+
+function isValidInput(input: unknown): input is GameInput {
+  if (!isRecord(input) || !isCount(input.tick)) return false;
+  if (input.type === 'pointer') return isFiniteNumber(input.x) && isFiniteNumber(input.y);
+  return input.type === 'end';
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+export interface ReplayPlayer {
+  readonly replay: Replay;
+  getEngine(): GameEngine;
+  getTick(): number;
+  isFinished(): boolean;
+  /** Advances exactly one simulation step, applying the inputs recorded for it. */
+  stepOnce(): void;
+  /** Jumps to a step; going backwards re-simulates from the start. */
+  seek(tick: number): void;
+}
+
+/** Display-only engine options; they never change how a replay plays out. */
+export type ReplayDisplayOptions = Pick<GameEngineOptions, 'palette' | 'theme' | 'particleScale'>;
+
+export function createReplayPlayer(replay: Replay, display: ReplayDisplayOptions = {}): ReplayPlayer {
+  let engine: GameEngine;
+  let nextInput = 0;
+
+  // Inputs stamped with tick N arrived after N steps, so they are applied as
+  // soon as the engine reaches that step.
+  const applyInputs = () => {
+    const tick = engine.getState().tick;
+    while (nextInput < replay.inputs.length && replay.inputs[nextInput].tick <= tick) {
+      const input = replay.inputs[nextInput++];
+      if (input.type === 'pointer') {
+        engine.pointerDown(input.x, input.y);
+      } else {
+        engine.end();
+      }
+    }
+  };
+
+  const restart = () => {
+    engine = createGameEngine({
+      difficulty: replay.difficulty,
+      mode: replay.mode,
+      timeLimit: replay.timeLimit,
+      hitTolerance: replay.hitTolerance,
+      config: replay.config,
+      width: replay.width,
+      height: replay.height,
+      seed: replay.seed,
+      ...display,
+    });
+    nextInput = 0;
+    applyInputs();
+  };
+
+  const getTick = () => engine.getState().tick;
+
+  const isFinished = () => getTick() >= replay.ticks || engine.getState().status === 'over';
+
+  const stepOnce = () => {
+    if (isFinished()) return;
+    engine.step(replay.timestep);
+    applyInputs();
+  };
+
+  const seek = (tick: number) => {
+    const target = Math.max(0, Math.min(replay.ticks, Math.floor(tick)));
+    if (target < getTick()) restart();
+    while (getTick() < target && !isFinished()) {
+      stepOnce();
+    }
+  };
+
+  restart();
+
+  return {
+    replay,
+    getEngine: () => engine,
+    getTick,
+    isFinished,
+    stepOnce,
+    seek,
+  };
+}
@@ -0,0 +1,30 @@
+// ============================================================================
+// SEEDABLE RANDOM NUMBER GENERATOR
+// ============================================================================
+
+/** Returns a float in [0, 1), like Math.random(). */
+export type Rng = () => number;
+
+/**
+ * Mulberry32: tiny, fast and plenty random for gameplay. The same seed always
+ * produces the same sequence, which is what makes runs reproducible.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Derives an independent stream from a seed so cosmetic rolls never shift gameplay rolls. */
+export function deriveSeed(seed: number, salt: number): number {
+  return createRng((seed ^ Math.imul(salt, 0x9e3779b1)) >>> 0)() * 4294967296 >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
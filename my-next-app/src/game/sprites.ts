@@ -0,0 +1,57 @@
+// ============================================================================
+// SPRITE CACHE
+// ============================================================================
+
+// Sprites are cheap to rebuild, so rather than tracking use the whole cache is
+// dropped when it fills up (e.g. after cycling through palettes and sizes)
+const MAX_SPRITES = 256;
+
+// Inside a worker there's no document, only OffscreenCanvas
+export type SpriteCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface SpriteCache {
+  /**
+   * Returns the sprite stored under key, drawing it first if needed. Returns
+   * null where canvases can't be created (server rendering, tests).
+   */
+  get(key: string, width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void): SpriteCanvas | null;
+  clear(): void;
+  readonly size: number;
+}
+
+export function createSpriteCache(maxSprites: number = MAX_SPRITES): SpriteCache {
+  const sprites = new Map<string, SpriteCanvas>();
+
+  const get = (key: string, width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void) => {
+    const cached = sprites.get(key);
+    if (cached) return cached;
+
+    const canvas = createCanvas(Math.ceil(width), Math.ceil(height));
+    // The offscreen context draws the same way; only its canvas property differs
+    const ctx = canvas?.getContext('2d') as CanvasRenderingContext2D | null | undefined;
+    if (!canvas || !ctx) return null;
+    draw(ctx);
+
+    if (sprites.size >= maxSprites) sprites.clear();
+    sprites.set(key, canvas);
+    return canvas;
+  };
+
+  return {
+    get,
+    clear: () => sprites.clear(),
+    get size() {
+      return sprites.size;
+    },
+  };
+}
+
+function createCanvas(width: number, height: number): SpriteCanvas | null {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : null;
+}
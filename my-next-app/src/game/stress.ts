@@ -0,0 +1,102 @@
+import { createGameEngine, type GameEngine } from './engine';
+import { FIXED_TIMESTEP } from './loop';
+import { createRng, randomSeed } from './rng';
+import type { DifficultyConfig } from './types';
+
+// ============================================================================
+// STRESS SCENARIO
+// ============================================================================
+
+// Balloons as often as the engine spawns them (every step or two), drifting
+// slowly so hundreds pile up on screen
+export const STRESS_CONFIG: DifficultyConfig = {
+  baseSpeed: 40,
+  spawnInterval: FIXED_TIMESTEP,
+  spawnChances: {},
+  speedIncreaseRate: 0,
+  spawnDecreaseRate: 1,
+  physics: 1,
+};
+
+export const STRESS_POPS_PER_SECOND = 40;
+// Each pop throws out 8× the usual particles, thousands in flight at once
+export const STRESS_PARTICLE_SCALE = 8;
+
+export interface StressScenario {
+  readonly engine: GameEngine;
+  /** Advances the field one step and fires the auto-popper when it's due. */
+  update(timestep: number): void;
+}
+
+/**
+ * A zen run (no hazards, no game over) with an automatic player clicking
+ * random spots, used to measure how the renderer copes with a crowded field.
+ */
+export function createStressScenario(width: number, height: number, seed: number = randomSeed()): StressScenario {
+  const engine = createGameEngine({
+    difficulty: 'hard',
+    mode: 'zen',
+    config: STRESS_CONFIG,
+    width,
+    height,
+    seed,
+    particleScale: STRESS_PARTICLE_SCALE,
+  });
+  const rng = createRng(seed);
+  const popInterval = 1000 / STRESS_POPS_PER_SECOND;
+  let untilPop = popInterval;
+
+  const update = (timestep: number) => {
+    engine.step(timestep);
+    untilPop -= timestep;
+    while (untilPop <= 0) {
+      const { width, height } = engine.getState();
+      engine.pointerDown(rng() * width, rng() * height);
+      untilPop += popInterval;
+    }
+  };
+
+  return { engine, update };
+}
+
+// ============================================================================
+// FRAME TIMING
+// ============================================================================
+
+export interface FrameStats {
+  /** Mean frame cost (update + render) over the window, ms. */
+  average: number;
+  p95: number;
+  worst: number;
+  /** Frames per second the average cost would allow. */
+  fps: number;
+}
+
+export interface FrameTimer {
+  record(ms: number): void;
+  getStats(): FrameStats;
+}
+
+export function createFrameTimer(windowSize: number = 120): FrameTimer {
+  const samples: number[] = [];
+
+  const record = (ms: number) => {
+    samples.push(ms);
+    if (samples.length > windowSize) samples.shift();
+  };
+
+  const getStats = (): FrameStats => {
+    if (samples.length === 0) return { average: 0, p95: 0, worst: 0, fps: 0 };
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const average = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+    return {
+      average,
+      p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+      worst: sorted[sorted.length - 1],
+      fps: average > 0 ? 1000 / average : 0,
+    };
+  };
+
+  return { record, getStats };
+}
@@ -0,0 +1,186 @@
+// ============================================================================
+// THEMES & SKINS
+// ============================================================================
+
+const COSMETICS_STORAGE_KEY = 'balloonCosmetics';
+
+export type ThemeId = 'sky' | 'sunset' | 'underwater' | 'night' | 'space';
+export type BalloonShape = 'classic' | 'heart' | 'star';
+
+/** Decoration drawn over the background gradient. */
+export type ThemeScenery = 'none' | 'sun' | 'bubbles' | 'stars' | 'planet';
+export type ParticleStyle = 'dots' | 'sparkles' | 'bubbles';
+
+export interface ThemeColors {
+  /** Score, timer and other HUD text. */
+  text: string;
+  /** Outline around HUD text and popups so they read on the background. */
+  outline: string;
+  /** Smaller labels such as the mode and wind indicator. */
+  label: string;
+  /** Brightness shift for score popups: darker on light skies, lighter on dark ones. */
+  popupShade: number;
+}
+
+export interface Theme {
+  label: string;
+  icon: string;
+  description: string;
+  /** Lifetime points needed before the theme can be picked. */
+  unlockScore: number;
+  /** Top and bottom of the background gradient. */
+  background: [string, string];
+  scenery: ThemeScenery;
+  /** Normal balloon colors; special balloons keep theirs so they stay recognisable. */
+  balloonColors?: string[];
+  particles: ParticleStyle;
+  ui: ThemeColors;
+}
+
+export interface BalloonSkin {
+  label: string;
+  icon: string;
+  description: string;
+  unlockScore: number;
+}
+
+const LIGHT_UI: ThemeColors = { text: '#2C3E50', outline: '#fff', label: '#34495E', popupShade: -60 };
+const DARK_UI: ThemeColors = { text: '#ECF0F1', outline: '#1B2631', label: '#BDC3C7', popupShade: 60 };
+
+export const THEMES: Record<ThemeId, Theme> = {
+  sky: {
+    label: 'Blue Sky',
+    icon: '☁️',
+    description: 'The original clear day',
+    unlockScore: 0,
+    background: ['#87CEEB', '#E0F6FF'],
+    scenery: 'none',
+    particles: 'dots',
+    ui: LIGHT_UI,
+  },
+  sunset: {
+    label: 'Sunset',
+    icon: '🌇',
+    description: 'Warm colors over a setting sun',
+    unlockScore: 250,
+    background: ['#FF7E5F', '#FEC89A'],
+    scenery: 'sun',
+    balloonColors: ['#E84A5F', '#6C5B7B', '#F8B195', '#355C7D', '#C06C84', '#FFD166'],
+    particles: 'dots',
+    ui: { text: '#4A1C2C', outline: '#FFF3E6', label: '#6C2E3F', popupShade: -60 },
+  },
+  underwater: {
+    label: 'Underwater',
+    icon: '🐠',
+    description: 'Rising bubbles in the deep blue',
+    unlockScore: 1000,
+    background: ['#0077B6', '#03045E'],
+    scenery: 'bubbles',
+    balloonColors: ['#F4A261', '#E76F51', '#90E0EF', '#FFB4A2', '#2EC4B6', '#FFE66D'],
+    particles: 'bubbles',
+    ui: DARK_UI,
+  },
+  night: {
+    label: 'Night Sky',
+    icon: '🌙',
+    description: 'Twinkling stars after dark',
+    unlockScore: 2500,
+    background: ['#0B1026', '#2B3A67'],
+    scenery: 'stars',
+    balloonColors: ['#A29BFE', '#74B9FF', '#FD79A8', '#55EFC4', '#FFEAA7', '#81ECEC'],
+    particles: 'sparkles',
+    ui: DARK_UI,
+  },
+  space: {
+    label: 'Deep Space',
+    icon: '🪐',
+    description: 'Balloons adrift past a ringed planet',
+    unlockScore: 5000,
+    background: ['#000000', '#1A0B2E'],
+    scenery: 'planet',
+    balloonColors: ['#E056FD', '#686DE0', '#F0932B', '#BADC58', '#22A6B3', '#EB4D4B'],
+    particles: 'sparkles',
+    ui: DARK_UI,
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const BALLOON_SKINS: Record<BalloonShape, BalloonSkin> = {
+  classic: {
+    label: 'Classic',
+    icon: '🎈',
+    description: 'Round party balloons',
+    unlockScore: 0,
+  },
+  heart: {
+    label: 'Hearts',
+    icon: '💖',
+    description: 'Heart-shaped balloons',
+    unlockScore: 500,
+  },
+  star: {
+    label: 'Stars',
+    icon: '⭐',
+    description: 'Five-pointed foil stars',
+    unlockScore: 1500,
+  },
+};
+
+export const SKIN_IDS = Object.keys(BALLOON_SKINS) as BalloonShape[];
+
+// ============================================================================
+// UNLOCKS & PERSISTENCE
+// ============================================================================
+
+export interface CosmeticSettings {
+  theme: ThemeId;
+  skin: BalloonShape;
+  /** Points scored over every solo run; unlike the run history it is never trimmed. */
+  totalScore: number;
+}
+
+export function isCosmeticUnlocked(item: { unlockScore: number }, totalScore: number): boolean {
+  return totalScore >= item.unlockScore;
+}
+
+/** Themes and skins whose milestone falls between the two totals, for the game over screen. */
+export function getNewUnlocks(before: number, after: number): (Theme | BalloonSkin)[] {
+  return [...Object.values(THEMES), ...Object.values(BALLOON_SKINS)]
+    .filter(item => item.unlockScore > before && item.unlockScore <= after)
+    .sort((a, b) => a.unlockScore - b.unlockScore);
+}
+
+/**
+ * Loads the selection. Players from before themes existed start from their run
+ * history's lifetime score, passed in as initialScore.
+ */
+export function loadCosmeticSettings(initialScore: number = 0): CosmeticSettings {
+  const defaults: CosmeticSettings = { theme: 'sky', skin: 'classic', totalScore: initialScore };
+  try {
+    const saved = localStorage.getItem(COSMETICS_STORAGE_KEY);
+    if (saved) {
+      const settings: CosmeticSettings = { ...defaults, ...JSON.parse(saved) };
+      if (typeof settings.totalScore !== 'number' || !(settings.totalScore >= 0)) settings.totalScore = initialScore;
+      // Locked picks can only come from a hand-edited save
+      if (!THEME_IDS.includes(settings.theme) || !isCosmeticUnlocked(THEMES[settings.theme], settings.totalScore)) {
+        settings.theme = 'sky';
+      }
+      if (!SKIN_IDS.includes(settings.skin) || !isCosmeticUnlocked(BALLOON_SKINS[settings.skin], settings.totalScore)) {
+        settings.skin = 'classic';
+      }
+      return settings;
+    }
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+  return defaults;
+}
+
+export function saveCosmeticSettings(settings: CosmeticSettings) {
+  try {
+    localStorage.setItem(COSMETICS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Ignore localStorage errors
+  }
+}
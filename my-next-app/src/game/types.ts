@@ -0,0 +1,64 @@
+import type { BalloonType } from './balloonTypes';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type { BalloonType };
+export type Difficulty = 'easy' | 'medium' | 'hard';
+export type GameMode = 'classic' | 'timeAttack' | 'survival' | 'zen';
+
+// Positions are in world units, velocities in units per second and rotation speed
+// in radians per second. The prev* fields hold the state at the start of the
+// last simulation step so the renderer can interpolate between steps.
+export interface Balloon {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  type: BalloonType;
+  popped: boolean;
+  popTime?: number;
+  rotation: number;
+  prevRotation: number;
+  rotationSpeed: number;
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+  color: string;
+  size: number;
+}
+
+export interface DifficultyConfig {
+  baseSpeed: number;
+  spawnInterval: number;
+  /** Per-type spawn probabilities; see the balloon type registry. */
+  spawnChances: Partial<Record<BalloonType, number>>;
+  speedIncreaseRate: number;
+  spawnDecreaseRate: number;
+  /** Strength of balloon wobble and wind gusts; 0 keeps balloons on straight paths. */
+  physics: number;
+}
+
+/** Floating "+N" text shown where a balloon was popped. */
+export interface ScorePopup {
+  x: number;
+  y: number;
+  prevY: number;
+  text: string;
+  color: string;
+  life: number;
+  maxLife: number;
+}
@@ -0,0 +1,102 @@
+import { isAssistedRun } from './accessibility';
+import { FIXED_TIMESTEP } from './loop';
+import { TIME_ATTACK_DURATIONS } from './modes';
+import { createReplayPlayer, type Replay } from './replay';
+import { isWorldSize } from './world';
+
+// ============================================================================
+// RUN VERIFICATION
+// ============================================================================
+
+// Verification runs on the request, so anything longer is rejected rather than
+// re-simulated (15 minutes at 60 steps/s, a few hundred ms of work)
+export const MAX_VERIFIED_TICKS = 60 * 60 * 15;
+// Sustained tapping faster than this isn't humanly possible
+const MAX_TAPS_PER_SECOND = 20;
+// Checked before a submission is parsed; well above any real run of the longest length
+export const MAX_VERIFIED_INPUTS = 10000;
+
+/** A submitted run that doesn't reproduce; the message says why. */
+export class RunVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunVerificationError';
+  }
+}
+
+export interface VerifiedRun {
+  score: number;
+  /** Milliseconds of simulated time. */
+  duration: number;
+  popped: number;
+  maxBonusStreak: number;
+}
+
+/**
+ * Re-simulates a run from its seed and input log and checks it ends with the
+ * claimed score. The engine is deterministic for a given JS engine, so runs
+ * recorded in a browser verify on the server as long as both use the same
+ * fixed timestep.
+ */
+export function verifyReplay(replay: Replay): VerifiedRun {
+  if (replay.timestep !== FIXED_TIMESTEP) {
+    throw new RunVerificationError('Run was recorded with an unsupported timestep');
+  }
+  if (replay.config) {
+    throw new RunVerificationError('Custom difficulty runs are not ranked');
+  }
+  if (isAssistedRun(replay)) {
+    throw new RunVerificationError('Assisted runs are not ranked');
+  }
+  if (replay.mode === 'timeAttack' && !TIME_ATTACK_DURATIONS.includes(replay.timeLimit)) {
+    throw new RunVerificationError('Run has a non-standard time limit');
+  }
+  if (!isWorldSize(replay.width, replay.height)) {
+    throw new RunVerificationError('Run was played on a non-standard field');
+  }
+  if (replay.ticks > MAX_VERIFIED_TICKS) {
+    throw new RunVerificationError('Run is too long to verify');
+  }
+  if (replay.inputs.length > MAX_VERIFIED_INPUTS) {
+    throw new RunVerificationError('Run has too many inputs to verify');
+  }
+
+  let lastTick = 0;
+  let taps = 0;
+  for (const input of replay.inputs) {
+    if (input.tick < lastTick || input.tick > replay.ticks) {
+      throw new RunVerificationError('Run inputs are out of order');
+    }
+    lastTick = input.tick;
+    if (input.type !== 'pointer' && input.type !== 'end') {
+      throw new RunVerificationError('Run has unsupported inputs');
+    }
+    if (input.type === 'pointer') taps++;
+  }
+
+  const seconds = (replay.ticks * replay.timestep) / 1000;
+  if (taps > Math.ceil(seconds * MAX_TAPS_PER_SECOND) + 1) {
+    throw new RunVerificationError('Run has more taps than is possible in its length');
+  }
+
+  const player = createReplayPlayer(replay);
+  player.seek(replay.ticks);
+  const state = player.getEngine().getState();
+
+  if (state.status !== 'over') {
+    throw new RunVerificationError('Run did not finish');
+  }
+  if (state.tick !== replay.ticks) {
+    throw new RunVerificationError('Run length does not match its inputs');
+  }
+  if (state.score !== replay.score) {
+    throw new RunVerificationError(`Claimed score ${replay.score} does not match the replayed score ${state.score}`);
+  }
+
+  return {
+    score: state.score,
+    duration: state.elapsed,
+    popped: state.popped,
+    maxBonusStreak: state.maxBonusStreak,
+  };
+}
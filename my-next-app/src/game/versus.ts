@@ -0,0 +1,101 @@
+import { createGameEngine, type GameEngine, type GameEngineOptions } from './engine';
+import { randomSeed } from './rng';
+
+// ============================================================================
+// LOCAL VERSUS
+// ============================================================================
+
+export const VERSUS_BOMB_PENALTY = 10;
+
+export interface VersusPlayer {
+  label: string;
+  color: string;
+  /** Direction keys (lowercase) moving this player's crosshair. */
+  directionKeys: readonly string[];
+  popKey: string;
+  controlsHint: string;
+}
+
+export const VERSUS_PLAYERS: readonly VersusPlayer[] = [
+  {
+    label: 'Player 1',
+    color: '#E74C3C',
+    directionKeys: ['w', 'a', 's', 'd'],
+    popKey: ' ',
+    controlsHint: 'WASD + Space',
+  },
+  {
+    label: 'Player 2',
+    color: '#3498DB',
+    directionKeys: ['arrowup', 'arrowleft', 'arrowdown', 'arrowright'],
+    popKey: 'enter',
+    controlsHint: 'Arrows + Enter',
+  },
+];
+
+export interface VersusMatch {
+  readonly seed: number;
+  /** One engine per lane, left to right. */
+  readonly engines: readonly GameEngine[];
+  /** Lane width in world units. */
+  getLaneWidth(): number;
+  step(deltaTime: number): void;
+  /** Routes a press on the whole field to the lane it landed in. */
+  pointerDown(x: number, y: number): void;
+  isOver(): boolean;
+  getScores(): number[];
+  /** Index of the leading player, null while tied. */
+  getLeader(): number | null;
+}
+
+export type VersusMatchOptions = Omit<GameEngineOptions, 'mode' | 'width' | 'seed' | 'bombPenalty'>;
+
+/**
+ * Each player gets a Time Attack engine for their half of the world. Both
+ * share a seed, so they face exactly the same balloons; bombs cost points
+ * rather than ending a player's round early.
+ */
+export function createVersusMatch(options: VersusMatchOptions & { width: number }): VersusMatch {
+  const seed = randomSeed();
+  const laneWidth = options.width / VERSUS_PLAYERS.length;
+
+  const engines = VERSUS_PLAYERS.map(() =>
+    createGameEngine({
+      ...options,
+      mode: 'timeAttack',
+      width: laneWidth,
+      seed,
+      bombPenalty: VERSUS_BOMB_PENALTY,
+    })
+  );
+
+  const step = (deltaTime: number) => {
+    engines.forEach(engine => engine.step(deltaTime));
+  };
+
+  const pointerDown = (x: number, y: number) => {
+    const lane = Math.max(0, Math.min(engines.length - 1, Math.floor(x / laneWidth)));
+    engines[lane].pointerDown(x - lane * laneWidth, y);
+  };
+
+  const isOver = () => engines.every(engine => engine.getState().status === 'over');
+
+  const getScores = () => engines.map(engine => engine.getState().score);
+
+  const getLeader = () => {
+    const [first, second] = getScores();
+    if (first === second) return null;
+    return first > second ? 0 : 1;
+  };
+
+  return {
+    seed,
+    engines,
+    getLaneWidth: () => laneWidth,
+    step,
+    pointerDown,
+    isOver,
+    getScores,
+    getLeader,
+  };
+}
@@ -0,0 +1,47 @@
+// ============================================================================
+// WORLD SPACE
+// ============================================================================
+
+// Runs simulate in logical units rather than canvas pixels. The short side is
+// always 720 units, so balloons have the same size and speed on a phone and a
+// 4K monitor, and the renderer letterboxes the world into whatever canvas it
+// gets. Upright screens play on an upright world.
+export const LANDSCAPE_WORLD: WorldSize = { width: 1280, height: 720 };
+export const PORTRAIT_WORLD: WorldSize = { width: 720, height: 1280 };
+
+export interface WorldSize {
+  width: number;
+  height: number;
+}
+
+/** Whether a field is one of the standard worlds; anything else can't be a genuine run. */
+export function isWorldSize(width: unknown, height: unknown): boolean {
+  return [LANDSCAPE_WORLD, PORTRAIT_WORLD].some(world => world.width === width && world.height === height);
+}
+
+/** Picks the world for a run starting on this canvas; the run keeps it through resizes. */
+export function getWorldSize(canvasWidth: number, canvasHeight: number): WorldSize {
+  return canvasHeight > canvasWidth ? PORTRAIT_WORLD : LANDSCAPE_WORLD;
+}
+
+/** Scale and offset that fit a fixed-size field inside the canvas, centered. */
+export interface FieldFit {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export function fitField(canvasWidth: number, canvasHeight: number, fieldWidth: number, fieldHeight: number): FieldFit {
+  const scale = Math.min(canvasWidth / fieldWidth, canvasHeight / fieldHeight);
+  return {
+    scale,
+    offsetX: (canvasWidth - fieldWidth * scale) / 2,
+    offsetY: (canvasHeight - fieldHeight * scale) / 2,
+  };
+}
+
+/** Maps a canvas point into a field letterboxed with fitField. */
+export function toFieldPoint(x: number, y: number, canvasWidth: number, canvasHeight: number, field: WorldSize) {
+  const fit = fitField(canvasWidth, canvasHeight, field.width, field.height);
+  return { x: (x - fit.offsetX) / fit.scale, y: (y - fit.offsetY) / fit.scale };
+}
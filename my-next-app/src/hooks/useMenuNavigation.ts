@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { createGamepadReader } from '@/game/controls';
+
+// ============================================================================
+// MENU NAVIGATION
+// ============================================================================
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])';
+// Inputs that use the arrow keys themselves
+const ARROW_KEY_INPUTS = ['text', 'range', 'number'];
+
+// Overlays opt in by marking their container with data-nav-root
+function getNavRoot(): HTMLElement | null {
+  return document.querySelector<HTMLElement>('[data-nav-root]');
+}
+
+function moveFocus(step: number) {
+  const root = getNavRoot();
+  if (!root) return;
+
+  const items = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(item => item.offsetParent !== null);
+  if (items.length === 0) return;
+
+  const index = items.indexOf(document.activeElement as HTMLElement);
+  const next = index === -1 ? (step > 0 ? 0 : items.length - 1) : (index + step + items.length) % items.length;
+  items[next].focus();
+}
+
+/**
+ * Lets arrow keys and a gamepad (stick/d-pad to move, A to press, B to go
+ * back) walk the focusable controls of the open overlay.
+ */
+export function useMenuNavigation(enabled: boolean, onBack?: () => void) {
+  const onBackRef = useRef(onBack);
+
+  useEffect(() => {
+    onBackRef.current = onBack;
+  }, [onBack]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && ARROW_KEY_INPUTS.includes(target.type)) return;
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        moveFocus(1);
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        moveFocus(-1);
+      } else if (e.key === 'Escape' && onBackRef.current) {
+        e.preventDefault();
+        onBackRef.current();
+      }
+    };
+
+    // Prime the reader so a button still held from gameplay doesn't count as a press
+    const reader = createGamepadReader();
+    reader.poll();
+    let lastDirection = 0;
+    let frameId = 0;
+
+    const pollGamepad = () => {
+      const gamepad = reader.poll();
+      if (gamepad) {
+        const direction = Math.sign(gamepad.y !== 0 ? gamepad.y : gamepad.x);
+        if (direction !== 0 && direction !== lastDirection) moveFocus(direction);
+        lastDirection = direction;
+
+        if (gamepad.justPressed.has('confirm')) {
+          const active = document.activeElement as HTMLElement | null;
+          if (active && getNavRoot()?.contains(active)) {
+            active.click();
+          } else {
+            moveFocus(1);
+          }
+        }
+        if (gamepad.justPressed.has('back')) onBackRef.current?.();
+      }
+      frameId = requestAnimationFrame(pollGamepad);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    frameId = requestAnimationFrame(pollGamepad);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      cancelAnimationFrame(frameId);
+    };
+  }, [enabled]);
+}
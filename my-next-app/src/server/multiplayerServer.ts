@@ -0,0 +1,270 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  CLAIM_CLOCK_SLACK,
+  MAX_POINTS_PER_CLAIM,
+  MAX_ROOM_PLAYERS,
+  MULTIPLAYER_COUNTDOWN,
+  MULTIPLAYER_PORT,
+  PLAYER_COLORS,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  countSpawnedBalloons,
+  parseClientMessage,
+  rankPlayers,
+  type ClientMessage,
+  type RoomPlayer,
+  type RoomSettings,
+  type ServerMessage,
+} from '@/game/multiplayer';
+import { randomSeed } from '@/game/rng';
+
+// ============================================================================
+// MULTIPLAYER SERVER
+// ============================================================================
+
+// Run with `npm run multiplayer`. Every client simulates the match itself from
+// the shared seed; the server only hands out the seed, decides who claimed
+// each balloon first and relays scores the claims each player won can explain.
+
+const PORT = Number(process.env.MULTIPLAYER_PORT ?? MULTIPLAYER_PORT);
+const MAX_MESSAGE_SIZE = 4096; // bytes
+
+interface Connection {
+  socket: WebSocket;
+  player: RoomPlayer;
+  room: Room | null;
+}
+
+interface Room {
+  code: string;
+  hostId: string;
+  settings: RoomSettings;
+  status: 'lobby' | 'countdown' | 'playing';
+  /** Server time (ms) the current match's countdown ends. */
+  startsAt: number;
+  members: Map<string, Connection>;
+  /** Balloon id -> id of the player who popped it first. */
+  claims: Map<number, string>;
+}
+
+const rooms = new Map<string, Room>();
+
+function send(connection: Connection, message: ServerMessage) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, message: ServerMessage) {
+  room.members.forEach(member => send(member, message));
+}
+
+function getPlayers(room: Room): RoomPlayer[] {
+  return [...room.members.values()].map(member => member.player);
+}
+
+function broadcastPlayers(room: Room) {
+  broadcast(room, { type: 'players', hostId: room.hostId, players: getPlayers(room) });
+}
+
+function createRoomCode(): string {
+  let code = '';
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+// ============================================================================
+// ROOM MANAGEMENT
+// ============================================================================
+
+function addMember(room: Room, connection: Connection, name: string) {
+  const usedColors = getPlayers(room).map(player => player.color);
+  connection.player = {
+    ...connection.player,
+    name,
+    color: PLAYER_COLORS.find(color => !usedColors.includes(color)) ?? PLAYER_COLORS[0],
+    score: 0,
+    finished: false,
+  };
+  connection.room = room;
+  room.members.set(connection.player.id, connection);
+
+  send(connection, {
+    type: 'joined',
+    code: room.code,
+    playerId: connection.player.id,
+    hostId: room.hostId,
+    players: getPlayers(room),
+    settings: room.settings,
+  });
+  broadcastPlayers(room);
+}
+
+function createRoom(connection: Connection, name: string, settings: RoomSettings) {
+  leaveRoom(connection);
+  const room: Room = {
+    code: createRoomCode(),
+    hostId: connection.player.id,
+    settings,
+    status: 'lobby',
+    startsAt: 0,
+    members: new Map(),
+    claims: new Map(),
+  };
+  rooms.set(room.code, room);
+  addMember(room, connection, name);
+}
+
+function joinRoom(connection: Connection, code: string, name: string) {
+  const room = rooms.get(code);
+  if (!room) return send(connection, { type: 'error', message: `No room with code ${code}` });
+  if (room.status !== 'lobby') return send(connection, { type: 'error', message: 'That match has already started' });
+  if (room.members.size >= MAX_ROOM_PLAYERS) return send(connection, { type: 'error', message: 'That room is full' });
+
+  leaveRoom(connection);
+  addMember(room, connection, name);
+}
+
+function leaveRoom(connection: Connection) {
+  const room = connection.room;
+  if (!room) return;
+
+  room.members.delete(connection.player.id);
+  connection.room = null;
+  if (room.members.size === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+
+  // The longest-standing member takes over as host
+  if (room.hostId === connection.player.id) {
+    room.hostId = room.members.keys().next().value!;
+  }
+  broadcastPlayers(room);
+  finishIfDone(room);
+}
+
+// ============================================================================
+// MATCHES
+// ============================================================================
+
+function startMatch(connection: Connection) {
+  const room = connection.room;
+  if (!room || room.status !== 'lobby') return;
+  if (room.hostId !== connection.player.id) {
+    return send(connection, { type: 'error', message: 'Only the host can start the match' });
+  }
+
+  room.status = 'countdown';
+  room.startsAt = Date.now() + MULTIPLAYER_COUNTDOWN;
+  room.claims.clear();
+  room.members.forEach(member => {
+    member.player.score = 0;
+    member.player.finished = false;
+  });
+  broadcastPlayers(room);
+  broadcast(room, { type: 'start', seed: randomSeed(), settings: room.settings, startsIn: MULTIPLAYER_COUNTDOWN });
+}
+
+// The countdown ends on the clock rather than a timer, so nothing is left to cancel
+function isMatchLive(room: Room): boolean {
+  if (room.status === 'countdown' && Date.now() >= room.startsAt) room.status = 'playing';
+  return room.status === 'playing';
+}
+
+// First claim wins; later claims on the same balloon are simply dropped, and
+// everyone hears who got it
+function claimBalloon(connection: Connection, balloonId: number) {
+  const room = connection.room;
+  if (!room || !isMatchLive(room) || connection.player.finished) return;
+  if (room.claims.has(balloonId)) return;
+  // Pre-claiming balloons that haven't spawned would lock them for everyone
+  const elapsed = Date.now() - room.startsAt + CLAIM_CLOCK_SLACK;
+  if (balloonId >= countSpawnedBalloons(room.settings.difficulty, elapsed)) {
+    return send(connection, { type: 'error', message: 'Claim rejected: that balloon has not spawned yet' });
+  }
+
+  room.claims.set(balloonId, connection.player.id);
+  broadcast(room, { type: 'popped', balloonId, playerId: connection.player.id });
+}
+
+function updateScore(connection: Connection, score: number, finished: boolean) {
+  const room = connection.room;
+  if (!room || !isMatchLive(room) || connection.player.finished) return;
+
+  // A score the player's won claims can't add up to keeps the last one accepted
+  const wins = [...room.claims.values()].filter(playerId => playerId === connection.player.id).length;
+  if (score <= wins * MAX_POINTS_PER_CLAIM) {
+    connection.player.score = score;
+  } else {
+    send(connection, { type: 'error', message: 'Score rejected: it is more than your pops can add up to' });
+  }
+  connection.player.finished = finished;
+  broadcastPlayers(room);
+  finishIfDone(room);
+}
+
+function finishIfDone(room: Room) {
+  if (!isMatchLive(room) || getPlayers(room).some(player => !player.finished)) return;
+
+  room.status = 'lobby';
+  broadcast(room, { type: 'results', players: rankPlayers(getPlayers(room)) });
+}
+
+function handleMessage(connection: Connection, message: ClientMessage) {
+  switch (message.type) {
+    case 'create':
+      createRoom(connection, message.name, message.settings);
+      break;
+    case 'join':
+      joinRoom(connection, message.code, message.name);
+      break;
+    case 'leave':
+      leaveRoom(connection);
+      break;
+    case 'start':
+      startMatch(connection);
+      break;
+    case 'claim':
+      claimBalloon(connection, message.balloonId);
+      break;
+    case 'score':
+      updateScore(connection, message.score, false);
+      break;
+    case 'finish':
+      updateScore(connection, message.score, true);
+      break;
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_SIZE });
+
+server.on('connection', socket => {
+  const connection: Connection = {
+    socket,
+    player: { id: randomUUID(), name: '', color: PLAYER_COLORS[0], score: 0, finished: false },
+    room: null,
+  };
+
+  socket.on('message', data => {
+    const message = parseClientMessage(String(data));
+    if (message) {
+      handleMessage(connection, message);
+    } else {
+      send(connection, { type: 'error', message: 'Invalid message' });
+    }
+  });
+
+  socket.on('close', () => leaveRoom(connection));
+});
+
+server.on('listening', () => {
+  console.log(`Multiplayer server listening on ws://localhost:${PORT}`);
+});
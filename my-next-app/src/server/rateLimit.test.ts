@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createRateLimiter, getClientKey } from './rateLimit';
+
+const requestFrom = (forwardedFor: string) =>
+  new Request('http://localhost/api/scores', { headers: { 'x-forwarded-for': forwardedFor } });
+
+describe('getClientKey', () => {
+  test('ignores x-forwarded-for without a trusted proxy', () => {
+    assert.equal(getClientKey(requestFrom('1.1.1.1'), 0), getClientKey(requestFrom('2.2.2.2'), 0));
+  });
+
+  test('takes the address the trusted proxies saw, not what the client wrote', () => {
+    assert.equal(getClientKey(requestFrom('6.6.6.6, 1.1.1.1'), 1), '1.1.1.1');
+    assert.equal(getClientKey(requestFrom('6.6.6.6, 1.1.1.1, 10.0.0.2'), 2), '1.1.1.1');
+    assert.equal(getClientKey(requestFrom('1.1.1.1'), 2), '1.1.1.1');
+  });
+});
+
+describe('createRateLimiter', () => {
+  test('allows the limit per window and reports when to retry', () => {
+    const limiter = createRateLimiter(2, 1000);
+    assert.ok(limiter.take('a', 0));
+    assert.ok(limiter.take('a', 100));
+    assert.ok(!limiter.take('a', 200));
+    assert.ok(limiter.take('b', 200));
+    assert.equal(limiter.retryAfter('a', 200), 800);
+    assert.ok(limiter.take('a', 1000));
+  });
+});
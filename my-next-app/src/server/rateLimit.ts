@@ -0,0 +1,64 @@
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+// Past this many clients, stale ones are swept so the map can't grow unbounded
+const SWEEP_THRESHOLD = 10000;
+
+export interface RateLimiter {
+  /** Records an attempt for the key; false when it is over the limit. */
+  take(key: string, now?: number): boolean;
+  /** Milliseconds until the key may try again, 0 when it can now. */
+  retryAfter(key: string, now?: number): number;
+}
+
+/** Sliding window limiter kept in memory, so limits reset when the server restarts. */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const attempts = new Map<string, number[]>();
+
+  const getRecent = (key: string, now: number) => {
+    const recent = (attempts.get(key) ?? []).filter(time => now - time < windowMs);
+    if (recent.length > 0) attempts.set(key, recent);
+    else attempts.delete(key);
+    return recent;
+  };
+
+  const take = (key: string, now: number = Date.now()) => {
+    if (attempts.size > SWEEP_THRESHOLD) [...attempts.keys()].forEach(other => getRecent(other, now));
+
+    const recent = getRecent(key, now);
+    if (recent.length >= limit) return false;
+
+    attempts.set(key, [...recent, now]);
+    return true;
+  };
+
+  const retryAfter = (key: string, now: number = Date.now()) => {
+    const recent = getRecent(key, now);
+    return recent.length < limit ? 0 : recent[0] + windowMs - now;
+  };
+
+  return { take, retryAfter };
+}
+
+// Reverse proxies in front of the app that append the address they saw to
+// x-forwarded-for. Unset means none, and the header is ignored: clients can
+// write anything into it.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+// Route handlers can't see the socket, so without a trusted proxy every client shares one limit
+const DIRECT_CLIENT_KEY = 'direct';
+
+/**
+ * Best guess at who sent a request. Each trusted proxy appends one address, so
+ * the client is that many entries from the end; anything further left came
+ * from the client itself.
+ */
+export function getClientKey(request: Request, trustedHops: number = TRUSTED_PROXY_HOPS): string {
+  if (trustedHops <= 0) return DIRECT_CLIENT_KEY;
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - trustedHops)] ?? DIRECT_CLIENT_KEY;
+}
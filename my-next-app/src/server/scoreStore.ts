@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { GlobalScoreEntry, GlobalScorePage } from '@/game/globalScores';
+import { getScoreKey } from '@/game/modes';
+import type { Difficulty, GameMode } from '@/game/types';
+
+// ============================================================================
+// FILE-BACKED SCORE STORE
+// ============================================================================
+
+const STORE_VERSION = 1;
+// Only the best scores per mode/difficulty are kept
+const MAX_ENTRIES_PER_BOARD = 1000;
+const SCORES_FILE = process.env.SCORES_FILE ?? path.join(process.cwd(), 'data', 'scores.json');
+
+interface StoreData {
+  version: typeof STORE_VERSION;
+  /** Entries sorted best first, keyed by getScoreKey(mode, difficulty, timeLimit). */
+  boards: Record<string, GlobalScoreEntry[]>;
+}
+
+// Reads and writes are chained so concurrent requests never interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+async function readStore(): Promise<StoreData> {
+  try {
+    const parsed = JSON.parse(await readFile(SCORES_FILE, 'utf8'));
+    if (parsed?.version === STORE_VERSION && parsed.boards) return parsed;
+  } catch (e) {
+    // Missing or unreadable file: start empty
+  }
+  return { version: STORE_VERSION, boards: {} };
+}
+
+// Write to a temporary file first so a crash never leaves half a store behind
+async function writeStore(data: StoreData) {
+  await mkdir(path.dirname(SCORES_FILE), { recursive: true });
+  const tempFile = `${SCORES_FILE}.tmp`;
+  await writeFile(tempFile, JSON.stringify(data));
+  await rename(tempFile, SCORES_FILE);
+}
+
+// ============================================================================
+// QUERIES & UPDATES
+// ============================================================================
+
+export function listScores(
+  mode: GameMode,
+  difficulty: Difficulty,
+  timeLimit: number,
+  page: number,
+  pageSize: number
+): Promise<GlobalScorePage> {
+  return enqueue(async () => {
+    const entries = (await readStore()).boards[getScoreKey(mode, difficulty, timeLimit)] ?? [];
+    const start = (page - 1) * pageSize;
+    return {
+      entries: entries.slice(start, start + pageSize),
+      page,
+      pageSize,
+      total: entries.length,
+    };
+  });
+}
+
+/**
+ * Stores a verified score and returns it with its 1-based rank (ties keep
+ * earlier runs ahead), or null if the same run was already submitted.
+ */
+export function addScore(
+  score: Omit<GlobalScoreEntry, 'id' | 'submittedAt'>
+): Promise<{ entry: GlobalScoreEntry; rank: number } | null> {
+  return enqueue(async () => {
+    const data = await readStore();
+    const key = getScoreKey(score.mode, score.difficulty, score.timeLimit);
+    const entries = data.boards[key] ?? [];
+    if (entries.some(other => other.seed === score.seed && other.score === score.score)) return null;
+
+    const entry: GlobalScoreEntry = { ...score, id: randomUUID(), submittedAt: new Date().toISOString() };
+    let index = entries.findIndex(other => other.score < entry.score);
+    if (index === -1) index = entries.length;
+    entries.splice(index, 0, entry);
+    data.boards[key] = entries.slice(0, MAX_ENTRIES_PER_BOARD);
+
+    await writeStore(data);
+    return { entry, rank: index + 1 };
+  });
+}